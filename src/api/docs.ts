@@ -0,0 +1,479 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  getActiveGenerations,
+  getSource,
+  getSourceByRepo,
+  listSources,
+  partitionByEmbeddingModel,
+  type Source
+} from '../config.js';
+import { getRepoPath, type SourceKind } from '../git/index.js';
+import { loadEmbedder, modelMismatchMessage } from '../embeddings/index.js';
+import { normalizeLanguage, slugify } from '../markdown/parser.js';
+import { htmlToMarkdown } from '../markdown/html.js';
+import { countTokens } from '../indexer/chunker.js';
+import {
+  listFileChunks,
+  search,
+  SEARCH_MODES,
+  type IndexedChunk,
+  type SearchMode,
+  type SearchResult
+} from '../storage/lancedb.js';
+
+// Default size of a get_doc page, larger files and sections are paginated
+const DEFAULT_MAX_TOKENS = 10_000;
+
+// Markdown ("## Title") and AsciiDoc ("== Title") headings
+const HEADING_LINE = /^(#{1,6}|={1,6})\s+\S/;
+
+// Underline or overline of a setext or reStructuredText title
+const ADORNMENT_LINE = /^([=\-~^"'`#*+:.<>_])\1{2,}\s*$/;
+
+/**
+ * Error of a request (invalid parameter, unknown document...), with its HTTP status
+ * MCP tools report the message, the REST API also the status.
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface SourceSummary {
+  id: string;
+  repo: string;         // owner/repo
+  branch: string;
+  kind: SourceKind;
+  lastUpdated?: string;
+  docCount: number;     // Indexed chunks
+  status: Source['status'];
+}
+
+/**
+ * Parameters of a search, named like the search_docs tool
+ */
+export interface SearchDocsRequest {
+  query: string;
+  source?: string;      // Source ID (e.g., "facebook-react-main"), all sources when omitted
+  limit?: number;       // Default: 5
+  mode?: SearchMode;    // Default: hybrid
+  language?: string;
+  path?: string;        // Glob of file paths
+  tags?: string[];
+  version?: string;
+  exclude_deprecated?: boolean;
+}
+
+export interface SearchDocsResponse {
+  results: SearchResult[];
+  warning?: string;     // Sources that were not searched (embedded with another model)
+}
+
+/**
+ * Parameters of get_doc: a whole file, a section or a line range, in pages of max_tokens
+ */
+export interface GetDocRequest {
+  repo: string;         // owner/repo
+  branch: string;
+  path: string;         // Path relative to the repository root, as returned by searches
+  section?: string;     // Heading, heading path or anchor (e.g., "Cleanup", "Hooks > useEffect", "usage-1")
+  start_line?: number;  // 1-based, inclusive
+  end_line?: number;
+  max_tokens?: number;  // Default: 10000
+  cursor?: string;      // next_cursor of the previous page (the other range parameters are ignored)
+}
+
+export interface DocumentContent {
+  repo: string;
+  branch: string;
+  path: string;
+  content: string;
+  section?: string;     // Heading path of the requested section
+  start_line: number;   // Line range of the content in the file
+  end_line: number;
+  total_lines: number;
+  next_cursor?: string; // Set when the requested range continues past max_tokens
+}
+
+/**
+ * List the configured sources
+ */
+export async function listSourceSummaries(): Promise<SourceSummary[]> {
+  const sources = await listSources();
+
+  return sources.map((s) => ({
+    id: s.id,
+    repo: `${s.owner}/${s.repo}`,
+    branch: s.branch,
+    kind: s.kind,
+    lastUpdated: s.lastUpdated,
+    docCount: s.docCount || 0,
+    status: s.status
+  }));
+}
+
+/**
+ * Search the documentation of one source, or of every source embedded with the configured model
+ */
+export async function searchDocs(request: SearchDocsRequest): Promise<SearchDocsResponse> {
+  checkTypes(request, {
+    query: 'string',
+    source: 'string',
+    mode: 'string',
+    language: 'string',
+    path: 'string',
+    tags: 'string[]',
+    version: 'string',
+    exclude_deprecated: 'boolean'
+  });
+
+  const {
+    query,
+    source,
+    limit = 5,
+    mode = 'hybrid',
+    language,
+    path: pathGlob,
+    tags,
+    version,
+    exclude_deprecated: excludeDeprecated
+  } = request;
+
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new ApiError(400, 'Query parameter is required');
+  }
+
+  if (!SEARCH_MODES.includes(mode)) {
+    throw new ApiError(400, `Invalid mode "${mode}". Expected one of: ${SEARCH_MODES.join(', ')}`);
+  }
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ApiError(400, `Invalid limit "${limit}". Expected a positive integer`);
+  }
+
+  const languageFilter = normalizeLanguage(language);
+  if (language !== undefined && !languageFilter) {
+    throw new ApiError(400, `Invalid language "${language}". Expected a language name (e.g., typescript)`);
+  }
+
+  // Only sources embedded with the configured model share the query vector space
+  const embedder = await loadEmbedder();
+
+  // Search in a specific source, or in all sources
+  const sources = source
+    ? [await getSource(source)].filter((s) => s !== undefined)
+    : await listSources();
+
+  const { matching, mismatched } = partitionByEmbeddingModel(sources, embedder);
+
+  if (source && mismatched.length > 0) {
+    throw new ApiError(409, modelMismatchMessage(mismatched, embedder));
+  }
+
+  // Generate query embedding (not needed for keyword-only search)
+  let queryVector: number[] | undefined;
+
+  if (mode !== 'fts') {
+    // Check if the embedding provider is available
+    if (!await embedder.checkHealth()) {
+      throw new ApiError(503, `Embedding provider ${embedder.provider} is not available. Please start it and ensure the ${embedder.model} model is installed.`);
+    }
+
+    queryVector = await embedder.embedQuery(query);
+  }
+
+  const results = await search(embedder.model, {
+    text: query,
+    vector: queryVector,
+    mode,
+    limit,
+    filter: {
+      generations: getActiveGenerations(matching),
+      languages: languageFilter ? [languageFilter] : undefined,
+      paths: pathGlob ? [pathGlob] : undefined,
+      tags,
+      version,
+      excludeDeprecated
+    }
+  });
+
+  return {
+    results,
+    warning: mismatched.length > 0 ? modelMismatchMessage(mismatched, embedder) : undefined
+  };
+}
+
+/**
+ * Get a documentation file, or a section or line range of it, one page of max_tokens at a time
+ */
+export async function getDoc(request: GetDocRequest): Promise<DocumentContent> {
+  checkTypes(request, { repo: 'string', branch: 'string', path: 'string', section: 'string', cursor: 'string' });
+
+  const { repo, branch, path: filePath, section, start_line: startLine, end_line: endLine, cursor } = request;
+  const maxTokens = request.max_tokens ?? DEFAULT_MAX_TOKENS;
+
+  if (!repo || !branch || !filePath) {
+    throw new ApiError(400, 'repo, branch, and path parameters are required');
+  }
+
+  // Parse repo (owner/repo)
+  const [owner, repoName] = repo.split('/');
+
+  if (!owner || !repoName) {
+    throw new ApiError(400, 'Invalid repo format. Expected "owner/repo"');
+  }
+
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new ApiError(400, `Invalid max_tokens "${maxTokens}". Expected a positive integer`);
+  }
+
+  const [source] = await getSourceByRepo(owner, repoName, branch);
+
+  if (!source) {
+    throw new ApiError(404, `Repository ${repo}@${branch} is not indexed`);
+  }
+
+  const document = await openDocument(source, filePath);
+  const lines = document.content.replace(/\r?\n$/, '').split(/\r?\n/);
+
+  let range: { from: number; to: number; section?: string };
+
+  if (cursor !== undefined) {
+    range = parseCursor(cursor, lines.length);
+  } else if (section !== undefined) {
+    if (startLine !== undefined || endLine !== undefined) {
+      throw new ApiError(400, 'Use either section or start_line/end_line');
+    }
+    range = findSection(document, lines, section);
+  } else {
+    range = lineRange(startLine, endLine, lines.length);
+  }
+
+  // Fill the page line by line, a single line longer than max_tokens is returned whole
+  let last = range.from - 1;
+  let tokens = 0;
+
+  while (last < range.to) {
+    const lineTokens = countTokens(lines[last]) + 1;
+    if (last >= range.from && tokens + lineTokens > maxTokens) {
+      break;
+    }
+    tokens += lineTokens;
+    last++;
+  }
+
+  return {
+    repo,
+    branch,
+    path: document.path,
+    content: lines.slice(range.from - 1, last).join('\n'),
+    section: range.section,
+    start_line: range.from,
+    end_line: last,
+    total_lines: lines.length,
+    next_cursor: last < range.to ? encodeCursor({ ...range, from: last + 1 }) : undefined
+  };
+}
+
+/**
+ * Read a file of a source, HTML pages are returned as the markdown they were indexed as
+ * @throws ApiError if the path is not an indexed file of the source
+ */
+export async function readDocument(source: Source, filePath: string): Promise<string> {
+  const { path: normalized, content } = await openDocument(source, filePath);
+  return /\.html?$/i.test(normalized) ? content.trimStart() : content;
+}
+
+interface OpenDocument {
+  path: string;               // Normalized path
+  content: string;
+  chunks: IndexedChunk[];
+}
+
+/**
+ * Read a file of a source, only if it is part of the active index of the source
+ * Paths are confined to the repository: "..", absolute paths and symbolic links leading
+ * outside of it are rejected, so tool arguments cannot reach other files of the machine.
+ */
+async function openDocument(source: Source, filePath: string): Promise<OpenDocument> {
+  const name = `${source.owner}/${source.repo}@${source.branch}`;
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+
+  if (
+    normalized.includes('\0') ||
+    path.posix.isAbsolute(normalized) ||
+    /^[a-z]:/i.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    throw new ApiError(400, `Invalid path: ${filePath}. Expected a path relative to the repository root`);
+  }
+
+  if (!source.generation) {
+    throw new ApiError(404, `Repository ${name} is not indexed yet`);
+  }
+
+  const chunks = await listFileChunks(source.generation, normalized);
+
+  if (chunks.length === 0) {
+    throw new ApiError(404, `Document not found: ${name}:${normalized} is not an indexed file`);
+  }
+
+  const repoPath = getRepoPath(source);
+  let content: string;
+
+  try {
+    const [root, real] = await Promise.all([fs.realpath(repoPath), fs.realpath(path.join(repoPath, normalized))]);
+    const relative = path.relative(root, real);
+
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new ApiError(403, `Access denied: ${name}:${normalized} leads outside of the repository`);
+    }
+
+    content = await fs.readFile(real, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new ApiError(404, `Document not found: ${name}:${normalized}`);
+    }
+    throw error;
+  }
+
+  // Keep leading blank lines: converted pages are aligned with the line numbers of the chunks
+  if (/\.html?$/i.test(normalized)) {
+    content = htmlToMarkdown(content).markdown.trimEnd();
+  }
+
+  return { path: normalized, content, chunks };
+}
+
+/**
+ * Lines of a section and of its subsections, from the line ranges of the chunks of the file
+ * Chunks start after their heading, the heading lines right above the first one are included.
+ */
+function findSection(
+  document: OpenDocument,
+  lines: string[],
+  section: string
+): { from: number; to: number; section: string } {
+  const wanted = section.replace(/^#/, '').trim().toLowerCase();
+  const chunks = document.chunks.filter((chunk) => chunk.section && chunk.start_line && chunk.end_line);
+
+  const lastHeading = (heading: string) => heading.split(' > ').pop()!;
+  let index = chunks.findIndex(({ section: heading, anchor }) =>
+    anchor?.toLowerCase() === wanted ||
+    heading!.toLowerCase() === wanted ||
+    lastHeading(heading!).toLowerCase() === wanted
+  );
+
+  // Sections of API symbols are anchored at their lines, their heading slug is accepted too ("get-pets")
+  if (index === -1) {
+    index = chunks.findIndex(({ section: heading }) => slugify(lastHeading(heading!)) === wanted);
+  }
+
+  if (index === -1) {
+    // Line range anchors of API symbols are listed by heading
+    const available = [...new Set(chunks.map((chunk) => (chunk.anchor && !/^L\d+-L\d+$/.test(chunk.anchor) ? chunk.anchor : chunk.section!)))].slice(0, 20);
+    throw new ApiError(404, `Section "${section}" not found in ${document.path}. Available sections: ${available.join(', ')}`);
+  }
+
+  // The section continues with its other chunks and its subsections, up to the next section
+  const { section: heading, anchor } = chunks[index];
+  let last = index;
+  while (
+    last + 1 < chunks.length &&
+    ((chunks[last + 1].section === heading && chunks[last + 1].anchor === anchor) ||
+      chunks[last + 1].section!.startsWith(`${heading} > `))
+  ) {
+    last++;
+  }
+
+  const first = chunks[index].start_line!;
+  const to = Math.max(...chunks.slice(index, last + 1).map((chunk) => chunk.end_line!));
+  const floor = index > 0 ? chunks[index - 1].end_line! + 1 : 1;
+
+  return { from: headingStart(lines, first, floor), to: Math.min(to, lines.length), section: heading! };
+}
+
+/**
+ * First line of the heading above a line: "#"/"=" headings, or underlined (and overlined) titles
+ * @param floor Lines above it belong to the previous section
+ */
+function headingStart(lines: string[], line: number, floor: number): number {
+  const text = (n: number) => (n >= floor && n >= 1 ? lines[n - 1] : undefined);
+
+  let above = line - 1;
+  while (text(above)?.trim() === '') {
+    above--;
+  }
+
+  if (text(above) !== undefined && HEADING_LINE.test(text(above)!)) {
+    return above;
+  }
+
+  if (text(above) !== undefined && ADORNMENT_LINE.test(text(above)!) && text(above - 1)?.trim()) {
+    return text(above - 2) !== undefined && ADORNMENT_LINE.test(text(above - 2)!) ? above - 2 : above - 1;
+  }
+
+  return line;
+}
+
+function lineRange(startLine: number | undefined, endLine: number | undefined, totalLines: number): { from: number; to: number } {
+  for (const [name, value] of [['start_line', startLine], ['end_line', endLine]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new ApiError(400, `Invalid ${name} "${value}". Expected a positive integer`);
+    }
+  }
+
+  const from = startLine ?? 1;
+  const to = Math.min(endLine ?? totalLines, totalLines);
+
+  if (from > totalLines) {
+    throw new ApiError(400, `start_line ${from} is past the end of the file (${totalLines} lines)`);
+  }
+
+  if (to < from) {
+    throw new ApiError(400, `end_line ${to} is before start_line ${from}`);
+  }
+
+  return { from, to };
+}
+
+/**
+ * Cursor of the next page: the remaining line range and the heading path of the section it is part of,
+ * opaque to clients
+ */
+function encodeCursor({ from, to, section }: { from: number; to: number; section?: string }): string {
+  return Buffer.from(section === undefined ? `${from}:${to}` : `${from}:${to}:${section}`).toString('base64url');
+}
+
+function parseCursor(cursor: string, totalLines: number): { from: number; to: number; section?: string } {
+  const match = Buffer.from(String(cursor), 'base64url').toString().match(/^(\d+):(\d+)(?::([\s\S]*))?$/);
+  const [from, to] = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+
+  if (from < 1 || to < from || to > totalLines) {
+    throw new ApiError(400, `Invalid cursor: ${cursor}`);
+  }
+
+  return { from, to, section: match![3] };
+}
+
+/**
+ * Check the types of request parameters (MCP arguments and JSON bodies are not typed)
+ * Absent (undefined) parameters are accepted, numbers are checked where they are used.
+ * @throws ApiError 400 on a parameter of another type
+ */
+function checkTypes(request: object, types: Record<string, 'string' | 'boolean' | 'string[]'>): void {
+  for (const [name, type] of Object.entries(types)) {
+    const value = (request as Record<string, unknown>)[name];
+    const valid = value === undefined || (type === 'string[]'
+      ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+      : typeof value === type);
+
+    if (!valid) {
+      throw new ApiError(400, `Invalid ${name} ${JSON.stringify(value)}. Expected ${type === 'string[]' ? 'an array of strings' : `a ${type}`}`);
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import { SEARCH_MODES } from '../storage/lancedb.js';
+import { ApiError, getDoc, listSourceSummaries, searchDocs, type SearchDocsRequest } from './docs.js';
+
+export interface RestResponse {
+  status: number;
+  body: unknown;          // Serialized as JSON, errors are { "error": message }
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  handle: (url: URL, body: unknown, auth: boolean) => Promise<unknown>;
+}
+
+const ROUTES: Record<string, Route> = {
+  '/sources': {
+    method: 'GET',
+    handle: () => listSourceSummaries()
+  },
+  '/search': {
+    method: 'POST',
+    handle: async (_url, body) => {
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new ApiError(400, 'Expected a JSON object body, e.g., {"query": "useEffect cleanup"}');
+      }
+      return searchDocs(body as SearchDocsRequest);
+    }
+  },
+  '/doc': {
+    method: 'GET',
+    handle: (url) => {
+      const param = (name: string) => url.searchParams.get(name) ?? undefined;
+      const number = (name: string) => (url.searchParams.has(name) ? Number(param(name)) : undefined);
+
+      return getDoc({
+        repo: param('repo') ?? '',
+        branch: param('branch') ?? '',
+        path: param('path') ?? '',
+        section: param('section'),
+        start_line: number('start_line'),
+        end_line: number('end_line'),
+        max_tokens: number('max_tokens'),
+        cursor: param('cursor')
+      });
+    }
+  },
+  '/openapi.json': {
+    method: 'GET',
+    handle: async (_url, _body, auth) => openApiDocument(auth)
+  }
+};
+
+/**
+ * Whether a path is a route of the REST API
+ */
+export function isRestPath(pathname: string): boolean {
+  return Object.hasOwn(ROUTES, pathname);
+}
+
+/**
+ * Handle a request of the REST API (GET /sources, POST /search, GET /doc, GET /openapi.json)
+ * Responses use the schemas of the MCP tools, errors carry the status of their ApiError.
+ * @param body Parsed JSON body of POST requests
+ * @param auth Whether the server requires a bearer token (advertised in the OpenAPI description)
+ */
+export async function handleRestRequest(
+  method: string,
+  url: URL,
+  body: unknown,
+  auth: boolean
+): Promise<RestResponse> {
+  const route = ROUTES[url.pathname];
+
+  if (method !== route.method) {
+    return {
+      status: 405,
+      body: { error: `Method ${method} not allowed, use ${route.method}` },
+      headers: { Allow: route.method }
+    };
+  }
+
+  try {
+    return { status: 200, body: await route.handle(url, body, auth) };
+  } catch (error: any) {
+    return { status: error instanceof ApiError ? error.status : 500, body: { error: error.message } };
+  }
+}
+
+/**
+ * OpenAPI description of the REST API
+ */
+function openApiDocument(auth: boolean): Record<string, unknown> {
+  const errors = (...statuses: number[]) => Object.fromEntries(
+    statuses.map((status) => [String(status), { $ref: `#/components/responses/Error${status}` }])
+  );
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  });
+  const required = (name: string, description: string, example: string) => ({
+    name,
+    in: 'query',
+    required: true,
+    description,
+    schema: { type: 'string' },
+    example
+  });
+  const optional = (name: string, description: string, type = 'string') => ({
+    name,
+    in: 'query',
+    description,
+    schema: { type }
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'feedd',
+      version: '1.0.0',
+      description: 'Search the documentation indexed by feedd. The same queries are available to MCP clients as the list_sources, search_docs and get_doc tools.'
+    },
+    ...(auth ? { security: [{ bearerAuth: [] }] } : {}),
+    paths: {
+      '/sources': {
+        get: {
+          operationId: 'listSources',
+          summary: 'List the indexed repositories',
+          responses: {
+            200: {
+              description: 'Indexed repositories',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Source' } } } }
+            },
+            ...errors(401)
+          }
+        }
+      },
+      '/search': {
+        post: {
+          operationId: 'searchDocs',
+          summary: 'Search the documentation (hybrid keyword and vector search)',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/SearchRequest' } } }
+          },
+          responses: {
+            200: {
+              description: 'Chunks matching the query, best first',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/SearchResponse' } } }
+            },
+            ...errors(400, 401, 409, 503)
+          }
+        }
+      },
+      '/doc': {
+        get: {
+          operationId: 'getDoc',
+          summary: 'Get a documentation file, or a section or line range of it',
+          parameters: [
+            required('repo', 'Repository name', 'facebook/react'),
+            required('branch', 'Branch name', 'main'),
+            required('path', 'Path of the file, as returned by searches', 'docs/hooks-reference.md'),
+            optional('section', 'Only this section and its subsections: anchor, heading or heading path (not with start_line/end_line)'),
+            optional('start_line', 'First line (1-based)', 'integer'),
+            optional('end_line', 'Last line (inclusive)', 'integer'),
+            optional('max_tokens', 'Maximum size of the content, longer ranges are paginated (default: 10000)', 'integer'),
+            optional('cursor', 'next_cursor of the previous page, the other range parameters are ignored')
+          ],
+          responses: {
+            200: {
+              description: 'Content of the file (HTML pages are converted to markdown)',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Document' } } }
+            },
+            ...errors(400, 401, 403, 404)
+          }
+        }
+      }
+    },
+    components: {
+      ...(auth ? { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } } : {}),
+      responses: {
+        Error400: errorResponse('Invalid parameters'),
+        Error401: errorResponse('Missing or invalid bearer token'),
+        Error403: errorResponse('The path leads outside of the repository'),
+        Error404: errorResponse('Repository, indexed file or section not found'),
+        Error409: errorResponse('The source was indexed with another embedding model'),
+        Error503: errorResponse('The embedding provider is not available')
+      },
+      schemas: {
+        Source: {
+          type: 'object',
+          required: ['id', 'repo', 'branch', 'kind', 'docCount', 'status'],
+          properties: {
+            id: { type: 'string', example: 'facebook-react-main' },
+            repo: { type: 'string', example: 'facebook/react' },
+            branch: { type: 'string', example: 'main' },
+            kind: { type: 'string', enum: ['github', 'git', 'local'] },
+            lastUpdated: { type: 'string', format: 'date-time' },
+            docCount: { type: 'integer', description: 'Indexed chunks' },
+            status: { type: 'string', enum: ['pending', 'indexing', 'ready', 'error'] }
+          }
+        },
+        SearchRequest: {
+          type: 'object',
+          required: ['query'],
+          properties: {
+            query: { type: 'string', example: 'useEffect cleanup' },
+            source: { type: 'string', description: 'Only search this source ID' },
+            limit: { type: 'integer', minimum: 1, default: 5 },
+            mode: { type: 'string', enum: SEARCH_MODES, default: 'hybrid' },
+            language: { type: 'string', description: 'Only chunks with a code example in this language', example: 'typescript' },
+            path: { type: 'string', description: 'Only files matching this glob', example: 'docs/api/**' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Only documents with one of these frontmatter tags' },
+            version: { type: 'string', description: 'Only documents with this frontmatter version' },
+            exclude_deprecated: { type: 'boolean', description: 'Skip documents marked deprecated' }
+          }
+        },
+        SearchResponse: {
+          type: 'object',
+          required: ['results'],
+          properties: {
+            results: { type: 'array', items: { $ref: '#/components/schemas/SearchResult' } },
+            warning: { type: 'string', description: 'Sources that were not searched (embedded with another model)' }
+          }
+        },
+        SearchResult: {
+          type: 'object',
+          required: ['id', 'source_id', 'repo', 'branch', 'path', 'content', 'metadata'],
+          properties: {
+            id: { type: 'string' },
+            source_id: { type: 'string' },
+            repo: { type: 'string' },
+            branch: { type: 'string' },
+            path: { type: 'string', example: 'docs/hooks-reference.md' },
+            content: { type: 'string' },
+            metadata: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                section: { type: 'string', description: 'Heading path of the chunk' },
+                anchor: { type: 'string', description: 'Slug of the section heading, or line range of an API symbol' },
+                start_line: { type: 'integer' },
+                end_line: { type: 'integer' },
+                languages: { type: 'array', items: { type: 'string' } },
+                description: { type: 'string' },
+                tags: { type: 'array', items: { type: 'string' } },
+                version: { type: 'string' },
+                deprecated: { type: 'boolean' },
+                symbol: { type: 'string' },
+                kind: { type: 'string' }
+              }
+            },
+            _distance: { type: 'number', description: 'Vector distance (lower is better)' },
+            _score: { type: 'number', description: 'BM25 or fused rank score (higher is better)' }
+          }
+        },
+        Document: {
+          type: 'object',
+          required: ['repo', 'branch', 'path', 'content', 'start_line', 'end_line', 'total_lines'],
+          properties: {
+            repo: { type: 'string' },
+            branch: { type: 'string' },
+            path: { type: 'string' },
+            content: { type: 'string' },
+            section: { type: 'string', description: 'Heading path of the requested section' },
+            start_line: { type: 'integer', description: 'Line range of the content in the file' },
+            end_line: { type: 'integer' },
+            total_lines: { type: 'integer' },
+            next_cursor: { type: 'string', description: 'Set when the range continues past max_tokens' }
+          }
+        },
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  };
+}
@@ -5,6 +5,18 @@ import { Command } from 'commander';
 
 const program = new Command();
 
+// Commands reading or writing the index first move legacy tables into the
+// chunks table of the configured embedding model (no-op once migrated)
+async function migrateStorage() {
+  const { migrateLegacyTables } = await import('./storage/migrate.js');
+  await migrateLegacyTables();
+}
+
+// Accumulate the values of a repeatable option
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('feedd')
   .description('Local GitHub documentation indexer with RAG and MCP server for Claude Code')
@@ -13,9 +25,14 @@ program
 // Command: add
 program
   .command('add')
-  .description('Add and index a GitHub repository')
-  .argument('<repo>', 'GitHub repository (owner/repo or owner/repo@branch)')
+  .description('Add and index a GitHub repository, git remote or local directory')
+  .argument('<repo>', 'owner/repo[@branch], git URL[#branch] or local path')
   .option('-b, --branch <branch>', 'Branch to index (default: main)')
+  .option('--typescript-api', 'Also index the exported API (signatures, TSDoc) of .ts/.d.ts files')
+  .option('--html', 'Also index .html pages, e.g., a built Sphinx, mkdocs, TypeDoc or Javadoc site')
+  .option('--include <glob>', 'Only index files matching this glob, e.g., "docs/**" (repeatable)', collect, [])
+  .option('--exclude <glob>', 'Skip files matching this glob, e.g., "**/i18n/**" (repeatable)', collect, [])
+  .hook('preAction', migrateStorage)
   .action(async (repo, options) => {
     const { addCommand } = await import('./commands/add.js');
     await addCommand(repo, options);
@@ -36,6 +53,7 @@ program
   .description('Sync (re-pull and re-index) a repository')
   .argument('<repo>', 'Repository to sync (owner/repo or owner/repo@branch)')
   .option('-b, --branch <branch>', 'Branch to sync')
+  .hook('preAction', migrateStorage)
   .action(async (repo, options) => {
     const { syncCommand } = await import('./commands/sync.js');
     await syncCommand(repo, options);
@@ -47,6 +65,7 @@ program
   .description('Remove an indexed repository')
   .argument('<repo>', 'Repository to remove (owner/repo or owner/repo@branch)')
   .option('-b, --branch <branch>', 'Branch to remove')
+  .hook('preAction', migrateStorage)
   .action(async (repo, options) => {
     const { removeCommand } = await import('./commands/remove.js');
     await removeCommand(repo, options);
@@ -60,6 +79,13 @@ program
   .option('-r, --repo <repo>', 'Search in specific repository (owner/repo)')
   .option('-b, --branch <branch>', 'Search in specific branch')
   .option('-l, --limit <number>', 'Number of results (default: 10)')
+  .option('-m, --mode <mode>', 'Search mode: vector, fts or hybrid (default: hybrid)')
+  .option('--language <languages>', 'Only chunks with code in these languages (comma-separated, e.g., typescript,tsx)')
+  .option('--path <glob>', 'Only files matching this glob, e.g., "docs/api/**" (repeatable)', collect, [])
+  .option('--tag <tags>', 'Only documents with one of these frontmatter tags (comma-separated)')
+  .option('--doc-version <version>', 'Only documents with this frontmatter version')
+  .option('--no-deprecated', 'Exclude documents marked deprecated in their frontmatter')
+  .hook('preAction', migrateStorage)
   .action(async (query, options) => {
     const { searchCommand } = await import('./commands/search.js');
     await searchCommand(query, options);
@@ -69,7 +95,12 @@ program
 program
   .command('serve')
   .description('Start MCP server for Claude Code')
-  .option('-p, --port <number>', 'Port to listen on (not used for MCP)', '3000')
+  .option('--http', 'Serve MCP over streamable HTTP (shared by several clients) instead of stdio')
+  .option('-p, --port <number>', 'Port of the HTTP server', '3000')
+  .option('--host <host>', 'Interface of the HTTP server, e.g., 0.0.0.0 for the whole network (default: 127.0.0.1)')
+  .option('--token <token>', 'Bearer token required from HTTP clients (or FEEDD_SERVER_TOKEN)')
+  .option('--rest', 'Also serve a JSON REST API (GET /sources, POST /search, GET /doc), implies --http')
+  .hook('preAction', migrateStorage)
   .action(async (options) => {
     const { serveCommand } = await import('./commands/serve.js');
     await serveCommand(options);
@@ -78,12 +109,59 @@ program
 // Command: doctor
 program
   .command('doctor')
-  .description('Check system health (Ollama, LanceDB, indexed repos)')
+  .description('Check system health (embedding provider, LanceDB, indexed repos)')
+  .hook('preAction', migrateStorage)
   .action(async () => {
     const { doctorCommand } = await import('./commands/doctor.js');
     await doctorCommand();
   });
 
+// Command: optimize
+program
+  .command('optimize')
+  .description('Compact the index, update search indices and delete old versions')
+  .option('--older-than <days>', 'Only delete versions older than this many days (default: 0)')
+  .hook('preAction', migrateStorage)
+  .action(async (options) => {
+    const { optimizeCommand } = await import('./commands/optimize.js');
+    await optimizeCommand(options);
+  });
+
+// Command: reembed
+program
+  .command('reembed')
+  .description('Re-embed all sources with the configured (or a new) embedding model')
+  .option('--model <model>', 'Switch to this embedding model')
+  .option('--dimensions <n>', 'Vector dimensions of the model (detected when switching models)')
+  .hook('preAction', migrateStorage)
+  .action(async (options) => {
+    const { reembedCommand } = await import('./commands/reembed.js');
+    await reembedCommand(options);
+  });
+
+// Command: cache
+const cache = program
+  .command('cache')
+  .description('Manage the embedding cache');
+
+cache
+  .command('stats')
+  .description('Show cached embeddings per model')
+  .action(async () => {
+    const { cacheStatsCommand } = await import('./commands/cache.js');
+    await cacheStatsCommand();
+  });
+
+cache
+  .command('prune')
+  .description('Delete cached embeddings no longer used by any indexed source')
+  .option('--all', 'Clear the whole cache')
+  .hook('preAction', migrateStorage)
+  .action(async (options) => {
+    const { cachePruneCommand } = await import('./commands/cache.js');
+    await cachePruneCommand(options);
+  });
+
 // Command: init
 program
   .command('init')
@@ -1,42 +1,56 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { parseRepoSpec } from '../git/index.js';
-import { addSource, updateSource } from '../config.js';
+import { parseRepoSpec, type RepoSpec } from '../git/index.js';
+import { addSource, updateSource, type Source } from '../config.js';
 import { indexRepo } from '../indexer/index.js';
 import { updateClaudeMd } from '../utils/claudemd.js';
+import { normalizeGlob } from '../utils/glob.js';
 
 interface AddOptions {
   branch?: string;
+  typescriptApi?: boolean;
+  html?: boolean;
+  include?: string[];
+  exclude?: string[];
 }
 
 export async function addCommand(repoSpec: string, options: AddOptions) {
-  console.log(chalk.bold('\n📚 Adding GitHub repository\n'));
+  console.log(chalk.bold('\n📚 Adding documentation source\n'));
 
   // Parse repo specification
-  let owner: string;
-  let repo: string;
-  let branch: string;
+  let spec: RepoSpec;
 
   try {
-    const parsed = parseRepoSpec(repoSpec);
-    owner = parsed.owner;
-    repo = parsed.repo;
-    branch = options.branch || parsed.branch;
+    spec = parseRepoSpec(repoSpec);
+    if (options.branch && spec.kind !== 'local') {
+      spec.branch = options.branch;
+    }
   } catch (error: any) {
     console.error(chalk.red(`Error: ${error.message}`));
-    console.error(chalk.dim('\nExpected format: owner/repo or owner/repo@branch'));
+    console.error(chalk.dim('\nExpected format: owner/repo, owner/repo@branch, a local path or a git URL'));
     console.error(chalk.dim('Examples:'));
     console.error(chalk.cyan('  feedd add facebook/react'));
     console.error(chalk.cyan('  feedd add facebook/react@v18.2.0'));
     console.error(chalk.cyan('  feedd add vercel/next.js --branch canary'));
+    console.error(chalk.cyan('  feedd add ./docs'));
+    console.error(chalk.cyan('  feedd add ./docs/_build/html --html'));
+    console.error(chalk.cyan('  feedd add git@gitlab.internal:team/handbook.git#main'));
     process.exit(1);
   }
 
+  const { owner, repo, branch } = spec;
+
   let spinner = ora(`Adding ${owner}/${repo}@${branch} to config...`).start();
+  let source: Source | undefined;
 
   try {
     // Add to config
-    const source = await addSource(owner, repo, branch);
+    source = await addSource(spec, {
+      ...(options.typescriptApi ? { typescriptApi: true } : {}),
+      ...(options.html ? { html: true } : {}),
+      ...(options.include?.length ? { include: options.include.map(normalizeGlob) } : {}),
+      ...(options.exclude?.length ? { exclude: options.exclude.map(normalizeGlob) } : {})
+    });
     spinner.succeed(chalk.green(`Added ${owner}/${repo}@${branch}`));
 
     // Index repository
@@ -46,12 +60,14 @@ export async function addCommand(repoSpec: string, options: AddOptions) {
     await updateSource(source.id, { status: 'indexing' });
 
     // This will display its own progress
-    const chunkCount = await indexRepo(owner, repo, branch);
+    const { chunkCount, commit } = await indexRepo(source);
 
     // Mark as ready
     await updateSource(source.id, {
       status: 'ready',
       docCount: chunkCount,
+      commit,
+      error: undefined,
       lastUpdated: new Date().toISOString()
     });
 
@@ -68,6 +84,11 @@ export async function addCommand(repoSpec: string, options: AddOptions) {
 
     console.error(chalk.red(`\n✖ ${error.message}`));
 
+    // Keep the failure visible in list/CLAUDE.md (the previous index generation stays searchable)
+    if (source) {
+      await updateSource(source.id, { status: 'error', error: error.message });
+    }
+
     if (error.message.includes('Ollama')) {
       console.log(''); // Empty line for readability
     }
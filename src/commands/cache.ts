@@ -0,0 +1,71 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from '../config.js';
+import { getCacheUsage, hashText, pruneCache } from '../embeddings/cache.js';
+import { createEmbedder, embeddingCacheKey } from '../embeddings/index.js';
+import { getContentsByGeneration } from '../storage/lancedb.js';
+import { formatBytes } from '../utils/format.js';
+
+interface CachePruneOptions {
+  all?: boolean;
+}
+
+export async function cacheStatsCommand() {
+  console.log(chalk.bold('\n♻️  Embedding Cache\n'));
+
+  const usage = await getCacheUsage();
+
+  if (usage.length === 0) {
+    console.log(chalk.yellow('The embedding cache is empty.'));
+    return;
+  }
+
+  for (const entry of usage) {
+    console.log(chalk.bold.cyan(entry.model));
+    console.log(chalk.dim(`  ${entry.entries} embeddings  •  ${formatBytes(entry.bytes)}`));
+  }
+
+  console.log('');
+}
+
+export async function cachePruneCommand(options: CachePruneOptions) {
+  const spinner = ora('Pruning embedding cache...').start();
+
+  try {
+    let keep: Map<string, Set<string>> | null = null;
+
+    if (!options.all) {
+      // Keep every embedding still used by an indexed chunk, under the model that embedded it
+      // (sources don't record their provider, the configured one is assumed)
+      spinner.text = 'Collecting indexed chunks...';
+      const config = await loadConfig();
+      const { provider } = createEmbedder(config.embeddings);
+      const contents = await getContentsByGeneration();
+      keep = new Map();
+
+      for (const source of config.sources) {
+        if (!source.generation || !source.embeddingModel) {
+          continue;
+        }
+
+        const key = embeddingCacheKey(provider, source.embeddingModel, source.documentPrompt);
+        const hashes = keep.get(key) ?? new Set<string>();
+        for (const content of contents.get(source.generation) ?? []) {
+          hashes.add(hashText(content));
+        }
+        keep.set(key, hashes);
+      }
+    }
+
+    spinner.text = 'Deleting unused embeddings...';
+    const removed = await pruneCache(keep);
+
+    spinner.succeed(
+      chalk.green(`Removed ${removed.entries} cached embeddings (${formatBytes(removed.bytes)})`)
+    );
+  } catch (error: any) {
+    spinner.fail(chalk.red('Error pruning embedding cache'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -1,25 +1,37 @@
 import chalk from 'chalk';
-import { OllamaEmbedder } from '../embeddings/ollama.js';
-import { listTables, connect } from '../storage/lancedb.js';
-import { listSources } from '../config.js';
+import { loadEmbedder } from '../embeddings/index.js';
+import {
+  getIndexStatus,
+  getTableStats,
+  connect,
+  listChunksTables,
+  VECTOR_INDEX_THRESHOLD
+} from '../storage/lancedb.js';
+import { listSources, partitionByEmbeddingModel } from '../config.js';
 
 export async function doctorCommand() {
   console.log(chalk.bold('\n🏥 Feedd Health Check\n'));
 
   let allGood = true;
 
-  // Check 1: Ollama
-  console.log(chalk.bold('Checking Ollama...'));
-  const embedder = new OllamaEmbedder();
+  // Check 1: Embedding provider
+  console.log(chalk.bold('Checking embedding provider...'));
+  const embedder = await loadEmbedder();
 
   if (await embedder.checkHealth()) {
-    console.log(chalk.green('  ✓ Ollama is running'));
+    console.log(chalk.green(`  ✓ ${embedder.provider} is available`));
     console.log(chalk.dim(`    Model: ${embedder.model}`));
     console.log(chalk.dim(`    Dimensions: ${embedder.dimensions}`));
+    console.log(chalk.dim(`    Query prompt: ${embedder.prompts.query}`));
+    console.log(chalk.dim(`    Document prompt: ${embedder.prompts.document}`));
   } else {
-    console.log(chalk.red('  ✖ Ollama is not available'));
-    console.log(chalk.dim('    Start with: ollama serve'));
-    console.log(chalk.dim('    Pull model: ollama pull mxbai-embed-large'));
+    console.log(chalk.red(`  ✖ ${embedder.provider} is not available`));
+    if (embedder.provider === 'ollama') {
+      console.log(chalk.dim('    Start with: ollama serve'));
+      console.log(chalk.dim(`    Pull model: ollama pull ${embedder.model}`));
+    } else {
+      console.log(chalk.dim('    Check "embeddings.baseUrl" in feedd.config.json'));
+    }
     allGood = false;
   }
 
@@ -29,10 +41,24 @@ export async function doctorCommand() {
   console.log(chalk.bold('Checking LanceDB...'));
   try {
     await connect();
-    const tables = await listTables();
+    const { count } = await getTableStats();
     console.log(chalk.green('  ✓ LanceDB is connected'));
     console.log(chalk.dim(`    Database: ./data/lancedb`));
-    console.log(chalk.dim(`    Tables: ${tables.length}`));
+    console.log(chalk.dim(`    Chunks: ${count}`));
+
+    for (const table of await listChunksTables()) {
+      console.log(chalk.dim(`    ${table.name}: ${table.rows} chunks (${table.model}, ${table.dimensions} dimensions)`));
+    }
+
+    const vectorIndex = (await getIndexStatus()).find((index) => index.columns.includes('vector'));
+    if (vectorIndex) {
+      console.log(chalk.dim(`    Vector index: ${vectorIndex.indexType} (${vectorIndex.unindexedRows} unindexed chunks)`));
+      if (vectorIndex.unindexedRows > vectorIndex.indexedRows * 0.1) {
+        console.log(chalk.yellow('  ⚠ Many chunks are not in the vector index, run: feedd optimize'));
+      }
+    } else if (count >= VECTOR_INDEX_THRESHOLD) {
+      console.log(chalk.yellow('  ⚠ No vector index, run: feedd optimize'));
+    }
   } catch (error: any) {
     console.log(chalk.red('  ✖ LanceDB error'));
     console.log(chalk.dim(`    ${error.message}`));
@@ -62,6 +88,13 @@ export async function doctorCommand() {
           chalk.dim(`    ${statusIcon} ${source.owner}/${source.repo}@${source.branch} - ${source.docCount || 0} chunks`)
         );
       });
+
+      const { mismatched } = partitionByEmbeddingModel(sources, embedder);
+      if (mismatched.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${mismatched.length} source(s) not embedded with ${embedder.model} are not searchable`));
+        console.log(chalk.dim('    Migrate them with: feedd reembed'));
+        allGood = false;
+      }
     }
   } catch (error: any) {
     console.log(chalk.red('  ✖ Error loading sources'));
@@ -26,6 +26,10 @@ export async function listCommand() {
 
       console.log(chalk.dim(`  ├─ ${branch.branch}`));
       console.log(chalk.dim(`  │  ${docCount} chunks  •  Updated: ${lastUpdated}`));
+
+      if (branch.status === 'error') {
+        console.log(chalk.red(`  │  ✖ Last indexing failed: ${branch.error || 'unknown error'}`));
+      }
     }
 
     console.log(''); // Empty line between repos
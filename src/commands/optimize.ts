@@ -0,0 +1,54 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { getIndexStatus, optimizeTables, VECTOR_INDEX_THRESHOLD } from '../storage/lancedb.js';
+import { formatBytes } from '../utils/format.js';
+
+interface OptimizeOptions {
+  olderThan?: string;
+}
+
+export async function optimizeCommand(options: OptimizeOptions) {
+  const days = options.olderThan ? parseFloat(options.olderThan) : 0;
+
+  if (isNaN(days) || days < 0) {
+    console.error(chalk.red(`Error: Invalid number of days "${options.olderThan}"`));
+    process.exit(1);
+  }
+
+  console.log(chalk.bold('\n🧹 Optimizing LanceDB\n'));
+
+  const spinner = ora('Compacting fragments and updating indices...').start();
+
+  try {
+    const olderThan = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const report = await optimizeTables(olderThan);
+
+    spinner.succeed(chalk.green('Optimization complete'));
+
+    for (const table of report.vectorIndexesCreated) {
+      console.log(chalk.green(`  ✓ Created vector index on ${table} (more than ${VECTOR_INDEX_THRESHOLD} chunks)`));
+    }
+
+    console.log(chalk.dim(`  Fragments: ${report.fragmentsRemoved} compacted into ${report.fragmentsAdded}`));
+    console.log(chalk.dim(`  Old versions removed: ${report.versionsRemoved}`));
+    console.log(chalk.bold(`  Reclaimed: ${formatBytes(report.bytesRemoved)}`));
+
+    // Show index coverage
+    const indices = await getIndexStatus();
+
+    if (indices.length > 0) {
+      console.log(chalk.bold('\nIndices:'));
+      for (const index of indices) {
+        console.log(
+          chalk.dim(`  ${index.table}: ${index.columns.join(', ')} (${index.indexType}) - ${index.indexedRows} indexed, ${index.unindexedRows} unindexed`)
+        );
+      }
+    }
+
+    console.log('');
+  } catch (error: any) {
+    spinner.fail(chalk.red('Error optimizing LanceDB'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
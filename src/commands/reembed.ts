@@ -0,0 +1,91 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig, partitionByEmbeddingModel, updateConfig } from '../config.js';
+import { createEmbedder } from '../embeddings/index.js';
+import { EmbeddingCache } from '../embeddings/cache.js';
+import { printCacheStats, reembedSource } from '../indexer/index.js';
+import { dropEmptyChunksTables } from '../storage/lancedb.js';
+
+interface ReembedOptions {
+  model?: string;
+  dimensions?: string;
+}
+
+export async function reembedCommand(options: ReembedOptions) {
+  const config = await loadConfig();
+  const embeddings = { ...config.embeddings, model: options.model || config.embeddings.model };
+
+  if (options.dimensions) {
+    embeddings.dimensions = parseInt(options.dimensions);
+
+    if (isNaN(embeddings.dimensions) || embeddings.dimensions <= 0) {
+      console.error(chalk.red(`Error: Invalid dimensions "${options.dimensions}"`));
+      process.exit(1);
+    }
+  }
+
+  console.log(chalk.bold(`\n🧠 Re-embedding sources with ${embeddings.model}\n`));
+
+  try {
+    let embedder = createEmbedder(embeddings);
+    await embedder.ensureAvailable();
+
+    // A new model usually has another vector width, ask it unless given
+    if (embeddings.model !== config.embeddings.model && !options.dimensions) {
+      const [probe] = await embedder.embedDocuments(['dimension probe']);
+      embeddings.dimensions = probe.length;
+      embedder = createEmbedder(embeddings);
+    }
+
+    // Save first so that syncs and queries use the new model, even if a source fails below
+    config.embeddings = embeddings;
+    await updateConfig((current) => {
+      current.embeddings = embeddings;
+    });
+    console.log(chalk.dim(`  Model: ${embedder.model} (${embedder.dimensions} dimensions)\n`));
+
+    const { mismatched } = partitionByEmbeddingModel(config.sources, embedder);
+
+    if (mismatched.length === 0) {
+      console.log(chalk.green('✓ All sources already use this model'));
+      return;
+    }
+
+    const cache = new EmbeddingCache(embedder.cacheKey, embedder.dimensions);
+    let failed = 0;
+
+    for (const source of mismatched) {
+      const label = `Re-embedding ${source.owner}/${source.repo}@${source.branch}`;
+      const spinner = ora(`${label}...`).start();
+      const start = Date.now();
+
+      try {
+        const count = await reembedSource(source, embedder, cache, (done, total) => {
+          const rate = done / Math.max((Date.now() - start) / 1000, 0.001);
+          spinner.text = `${label} (${done}/${total} chunks, ${rate.toFixed(1)} chunks/s)`;
+        });
+        spinner.succeed(chalk.green(`${source.owner}/${source.repo}@${source.branch} (${count} chunks)`));
+      } catch (error: any) {
+        spinner.fail(chalk.red(`${source.owner}/${source.repo}@${source.branch}: ${error.message}`));
+        failed++;
+      }
+    }
+
+    // Tables of models no source uses anymore
+    for (const table of await dropEmptyChunksTables()) {
+      console.log(chalk.dim(`  Dropped empty table ${table}`));
+    }
+
+    printCacheStats(cache);
+
+    if (failed > 0) {
+      console.log(chalk.bold.red(`\n❌ ${failed} source(s) could not be re-embedded, run "feedd reembed" again\n`));
+      process.exit(1);
+    }
+
+    console.log(chalk.bold.green(`\n✅ Re-embedded ${mismatched.length} source(s)!\n`));
+  } catch (error: any) {
+    console.error(chalk.red(`\n✖ ${error.message}`));
+    process.exit(1);
+  }
+}
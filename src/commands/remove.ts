@@ -1,10 +1,9 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs/promises';
-import path from 'path';
-import { removeSource, getSource } from '../config.js';
-import { deleteTable } from '../storage/lancedb.js';
-import { parseRepoSpec, generateRepoId } from '../git/index.js';
+import { removeSource, getSourceBySpec } from '../config.js';
+import { deleteSourceDocuments } from '../storage/lancedb.js';
+import { parseRepoSpec, getRepoPath, type RepoSpec } from '../git/index.js';
 import { updateClaudeMd } from '../utils/claudemd.js';
 
 interface RemoveOptions {
@@ -12,52 +11,49 @@ interface RemoveOptions {
 }
 
 export async function removeCommand(repoSpec: string, options: RemoveOptions) {
-  let owner: string;
-  let repo: string;
-  let branch: string | undefined;
+  let spec: RepoSpec;
 
   try {
     const parsed = parseRepoSpec(repoSpec);
-    owner = parsed.owner;
-    repo = parsed.repo;
-    branch = options.branch || parsed.branch;
+    spec = { ...parsed, branch: parsed.kind === 'local' ? parsed.branch : options.branch || parsed.branch };
   } catch (error: any) {
     console.error(chalk.red(`Error: ${error.message}`));
     process.exit(1);
   }
 
-  const repoId = generateRepoId(owner, repo, branch);
+  const { owner, repo, branch } = spec;
   const spinner = ora(`Removing ${owner}/${repo}@${branch}...`).start();
 
   try {
     // Check if source exists
-    const source = await getSource(repoId);
+    const source = await getSourceBySpec(spec);
     if (!source) {
       spinner.fail(chalk.red(`Repository ${owner}/${repo}@${branch} is not indexed`));
       console.log(chalk.dim('\nUse "feedd list" to see indexed repositories.'));
       process.exit(1);
     }
 
-    // Delete cloned repository
-    const repoPath = path.join(process.cwd(), 'data', 'repos', owner, repo, branch);
-    try {
-      await fs.rm(repoPath, { recursive: true, force: true });
-      spinner.text = `Deleted repository files...`;
-    } catch (error) {
-      // Ignore if directory doesn't exist
+    // Delete cloned repository (local directories are never touched)
+    if (source.kind !== 'local') {
+      try {
+        await fs.rm(getRepoPath(source), { recursive: true, force: true });
+        spinner.text = `Deleted repository files...`;
+      } catch (error) {
+        // Ignore if directory doesn't exist
+      }
     }
 
     // Remove from config
-    await removeSource(repoId);
+    await removeSource(source.id);
 
-    // Delete from LanceDB
+    // Delete from LanceDB (every index generation)
     try {
-      await deleteTable(repoId);
+      await deleteSourceDocuments(source.id);
     } catch (error) {
       // Ignore if table doesn't exist
     }
 
-    spinner.succeed(chalk.green(`Successfully removed ${owner}/${repo}@${branch}`));
+    spinner.succeed(chalk.green(`Successfully removed ${source.owner}/${source.repo}@${source.branch}`));
 
     // Update CLAUDE.md to remove the source
     await updateClaudeMd();
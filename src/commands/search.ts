@@ -1,78 +1,140 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { parseRepoSpec, generateRepoId } from '../git/index.js';
-import { listSources } from '../config.js';
-import { OllamaEmbedder } from '../embeddings/ollama.js';
-import { search, listTables } from '../storage/lancedb.js';
+import { parseRepoSpec } from '../git/index.js';
+import {
+  getActiveGenerations,
+  getSourceBySpec,
+  listSources,
+  partitionByEmbeddingModel,
+  type Source
+} from '../config.js';
+import { loadEmbedder, modelMismatchMessage } from '../embeddings/index.js';
+import { normalizeLanguage } from '../markdown/parser.js';
+import { search, SEARCH_MODES, type SearchMode } from '../storage/lancedb.js';
 
 interface SearchOptions {
   repo?: string;
   branch?: string;
   limit?: string;
+  mode?: string;
+  language?: string;
+  path?: string[];
+  tag?: string;
+  docVersion?: string;
+  deprecated?: boolean;
 }
 
 export async function searchCommand(query: string, options: SearchOptions) {
   const limit = options.limit ? parseInt(options.limit) : 10;
+  const mode = (options.mode || 'hybrid') as SearchMode;
+  const languages = options.language
+    ? options.language.split(',').flatMap((language) => normalizeLanguage(language) ?? [])
+    : undefined;
 
-  console.log(chalk.bold(`\n🔍 Searching: "${chalk.cyan(query)}"\n`));
+  if (!SEARCH_MODES.includes(mode)) {
+    console.error(chalk.red(`Error: Invalid search mode "${options.mode}". Expected one of: ${SEARCH_MODES.join(', ')}`));
+    process.exit(1);
+  }
+
+  if (languages && languages.length === 0) {
+    console.error(chalk.red(`Error: Invalid language "${options.language}". Expected a comma-separated list of languages (e.g., typescript,tsx)`));
+    process.exit(1);
+  }
 
-  const spinner = ora('Generating query embedding...').start();
+  console.log(chalk.bold(`\n🔍 Searching: "${chalk.cyan(query)}" (${mode})\n`));
 
-  try {
-    // Check Ollama
-    const embedder = new OllamaEmbedder();
-    await embedder.ensureAvailable();
+  const spinner = ora('Generating query embedding...');
 
-    // Generate query embedding
-    const [queryVector] = await embedder.embed([query]);
-    spinner.succeed(chalk.green('Query embedding generated'));
+  try {
+    // Only sources embedded with the configured model share the query vector space
+    const embedder = await loadEmbedder();
 
     // Determine which repos to search
-    let repoIds: string[] = [];
+    let sources: Source[];
 
     if (options.repo) {
       const parsed = parseRepoSpec(options.repo);
-      const branch = options.branch || parsed.branch;
-      const repoId = generateRepoId(parsed.owner, parsed.repo, branch);
-      repoIds = [repoId];
+      const branch = parsed.kind === 'local' ? parsed.branch : options.branch || parsed.branch;
+      const source = await getSourceBySpec({ ...parsed, branch });
+      sources = source ? [source] : [];
     } else {
       // Search all indexed repos
-      repoIds = await listTables();
+      sources = await listSources();
+    }
+
+    const { matching, mismatched } = partitionByEmbeddingModel(sources, embedder);
+
+    if (options.repo && mismatched.length > 0) {
+      throw new Error(modelMismatchMessage(mismatched, embedder));
     }
 
-    if (repoIds.length === 0) {
+    if (matching.length === 0 && mismatched.length === 0) {
       console.log(chalk.yellow('\n⚠ No repositories indexed yet'));
       console.log(chalk.dim('Add a repository with: feedd add owner/repo'));
       return;
     }
 
-    // Search all repos
-    const allResults: any[] = [];
+    if (mismatched.length > 0) {
+      console.log(chalk.yellow(`⚠ Skipping ${mismatched.length} source(s) not embedded with ${embedder.model}: ${mismatched.map((s) => s.id).join(', ')}`));
+      console.log(chalk.dim('  Run "feedd reembed" to migrate them\n'));
+    }
 
-    for (const repoId of repoIds) {
-      try {
-        const results = await search(repoId, queryVector, limit);
-        allResults.push(...results);
-      } catch (error) {
-        // Silently skip repos that don't exist or have errors
-      }
+    // Full-text search does not need an embedding
+    let queryVector: number[] | undefined;
+
+    if (mode !== 'fts') {
+      spinner.start();
+
+      // Check the embedding provider
+      await embedder.ensureAvailable();
+
+      // Generate query embedding
+      queryVector = await embedder.embedQuery(query);
+      spinner.succeed(chalk.green('Query embedding generated'));
     }
 
-    if (allResults.length === 0) {
+    // One query over all selected sources
+    const topResults = await search(embedder.model, {
+      text: query,
+      vector: queryVector,
+      mode,
+      limit,
+      filter: {
+        generations: getActiveGenerations(matching),
+        languages,
+        paths: options.path,
+        tags: options.tag?.split(',').map((tag) => tag.trim()).filter(Boolean),
+        version: options.docVersion,
+        excludeDeprecated: options.deprecated === false
+      }
+    });
+
+    if (topResults.length === 0) {
       console.log(chalk.yellow('\n⚠ No results found'));
       return;
     }
 
-    // Sort by distance
-    allResults.sort((a, b) => a._distance - b._distance);
-    const topResults = allResults.slice(0, limit);
-
     // Display results
     console.log(chalk.bold(`\n📄 Found ${topResults.length} result(s):\n`));
 
     topResults.forEach((result, index) => {
-      console.log(chalk.bold.cyan(`[${index + 1}] ${result.repo}@${result.branch} › ${result.path}`));
-      console.log(chalk.dim(`    Distance: ${result._distance.toFixed(4)}`));
+      const anchor = result.metadata?.anchor ? `#${result.metadata.anchor}` : '';
+      console.log(chalk.bold.cyan(`[${index + 1}] ${result.repo}@${result.branch} › ${result.path}${anchor}`));
+      if (result.metadata?.symbol) {
+        console.log(chalk.dim(`    Symbol: ${result.metadata.symbol} (${result.metadata.kind})`));
+      }
+      if (result.metadata?.start_line) {
+        console.log(chalk.dim(`    Lines ${result.metadata.start_line}-${result.metadata.end_line}`));
+      }
+      const resultLanguages = Array.from<string>(result.metadata?.languages ?? []);
+      if (resultLanguages.length > 0) {
+        console.log(chalk.dim(`    Code: ${resultLanguages.join(', ')}`));
+      }
+      if (result._score !== undefined) {
+        console.log(chalk.dim(`    Score: ${result._score.toFixed(4)}`));
+      } else if (result._distance !== undefined) {
+        console.log(chalk.dim(`    Distance: ${result._distance.toFixed(4)}`));
+      }
 
       // Show content preview (first 150 chars)
       const preview = result.content.substring(0, 150).replace(/\n/g, ' ');
@@ -2,14 +2,18 @@ import chalk from 'chalk';
 
 interface ServeOptions {
   port?: string;
+  host?: string;
+  http?: boolean;
+  token?: string;
+  rest?: boolean;
 }
 
 export async function serveCommand(options: ServeOptions) {
-  console.log(chalk.bold('\n🚀 Starting MCP Server\n'));
+  console.error(chalk.bold('\n🚀 Starting MCP Server\n'));
 
   // Simple cleanup handler
   const cleanup = () => {
-    console.log(chalk.dim('\n\nShutting down...'));
+    console.error(chalk.dim('\n\nShutting down...'));
     process.exit(0);
   };
 
@@ -1,7 +1,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { parseRepoSpec, generateRepoId } from '../git/index.js';
-import { getSource, updateSource } from '../config.js';
+import { parseRepoSpec, type RepoSpec } from '../git/index.js';
+import { getSourceBySpec, updateSource, type Source } from '../config.js';
 import { indexRepo } from '../indexer/index.js';
 import { updateClaudeMd } from '../utils/claudemd.js';
 
@@ -10,38 +10,37 @@ interface SyncOptions {
 }
 
 export async function syncCommand(repoSpec: string, options: SyncOptions) {
-  console.log(chalk.bold('\n🔄 Syncing GitHub repository\n'));
+  console.log(chalk.bold('\n🔄 Syncing documentation source\n'));
 
   // Parse repo specification
-  let owner: string;
-  let repo: string;
-  let branch: string | undefined;
+  let spec: RepoSpec;
 
   try {
     const parsed = parseRepoSpec(repoSpec);
-    owner = parsed.owner;
-    repo = parsed.repo;
-    branch = options.branch || parsed.branch;
+    spec = { ...parsed, branch: parsed.kind === 'local' ? parsed.branch : options.branch || parsed.branch };
   } catch (error: any) {
     console.error(chalk.red(`Error: ${error.message}`));
     process.exit(1);
   }
 
-  const repoId = generateRepoId(owner, repo, branch);
+  let { owner, repo, branch } = spec;
 
   let spinner = ora(`Checking if ${owner}/${repo}@${branch} is indexed...`).start();
+  let source: Source | undefined;
 
   try {
     // Check if source exists
-    const source = await getSource(repoId);
+    source = await getSourceBySpec(spec);
 
     if (!source) {
       spinner.fail(chalk.red(`Repository ${owner}/${repo}@${branch} is not indexed`));
       console.error(chalk.dim('\nAdd it first with:'));
-      console.error(chalk.cyan(`  feedd add ${owner}/${repo}@${branch}`));
+      console.error(chalk.cyan(`  feedd add ${spec.kind === 'local' ? spec.location : `${owner}/${repo}@${branch}`}`));
       process.exit(1);
     }
 
+    ({ owner, repo, branch } = source);
+
     spinner.succeed(chalk.green(`Found ${owner}/${repo}@${branch}`));
 
     // Re-index repository
@@ -50,12 +49,14 @@ export async function syncCommand(repoSpec: string, options: SyncOptions) {
 
     await updateSource(source.id, { status: 'indexing' });
 
-    const chunkCount = await indexRepo(owner, repo, branch);
+    const { chunkCount, commit } = await indexRepo(source);
 
     // Mark as ready
     await updateSource(source.id, {
       status: 'ready',
       docCount: chunkCount,
+      commit,
+      error: undefined,
       lastUpdated: new Date().toISOString()
     });
 
@@ -71,6 +72,11 @@ export async function syncCommand(repoSpec: string, options: SyncOptions) {
 
     console.error(chalk.red(`\n✖ ${error.message}`));
 
+    // Keep the failure visible in list/CLAUDE.md (the previous index generation stays searchable)
+    if (source) {
+      await updateSource(source.id, { status: 'error', error: error.message });
+    }
+
     if (error.message.includes('Ollama')) {
       console.log('');
     }
@@ -1,11 +1,13 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { generateRepoId } from './git/index.js';
+import { generateRepoId, githubUrl, type SourceKind, type RepoSpec } from './git/index.js';
 
 const CONFIG_PATH = path.join(process.cwd(), 'feedd.config.json');
 
 export interface Source {
   id: string;
+  kind: SourceKind;
+  location: string; // Clone URL, or absolute path for local directories
   owner: string;
   repo: string;
   branch: string;
@@ -13,19 +15,68 @@ export interface Source {
   lastUpdated?: string;
   status: 'pending' | 'indexing' | 'ready' | 'error';
   docCount?: number;
+  commit?: string; // Last indexed commit SHA, used for incremental syncs
+  generation?: string; // Active index generation in the chunks table
+  embeddingModel?: string; // Embedding model of the active generation (selects the chunks table)
+  documentPrompt?: string; // Document prompt of the active generation (unset when chunks were embedded raw)
+  typescriptApi?: boolean; // Also index the exported API (signatures, TSDoc) of TypeScript files
+  html?: boolean;          // Also index HTML pages (built documentation sites)
+  include?: string[];      // Only index files matching one of these globs (sparse checkout of git sources)
+  exclude?: string[];      // Never index files matching these globs
+  indexedFiles?: FileSelection; // File selection of the active generation, a change forces a full re-index
+  error?: string;  // Message of the last failed indexing run
+}
+
+/**
+ * Settings of a source that select its indexed files
+ */
+export type FileSelection = Pick<Source, 'typescriptApi' | 'html' | 'include' | 'exclude'>;
+
+export type EmbeddingProvider = 'ollama' | 'openai' | 'hash';
+
+/**
+ * Prompt templates of a model, "{text}" is replaced by the text to embed
+ */
+export interface EmbeddingPrompts {
+  query?: string;    // e.g., "search_query: {text}"
+  document?: string; // e.g., "search_document: {text}"
+}
+
+export interface EmbeddingsConfig {
+  provider?: EmbeddingProvider; // Default: ollama
+  model: string;
+  dimensions: number;
+  baseUrl?: string;             // Provider endpoint (e.g., http://localhost:8080/v1 for llama.cpp server)
+  apiKey?: string;              // Bearer token for OpenAI-compatible servers (or FEEDD_EMBEDDINGS_API_KEY)
+  batchSize?: number;           // Texts per request
+  concurrency?: number;         // Requests in flight
+  timeout?: number;             // Per request, in milliseconds
+  retries?: number;             // Retries of failed requests (network errors, timeouts, 429, 5xx)
+  prompts?: Record<string, EmbeddingPrompts>; // Per-model prompts, override the built-in ones
+}
+
+/**
+ * Settings of feedd serve
+ */
+export interface ServerConfig {
+  readOnly?: boolean;        // Disable the MCP tools that add, sync and remove sources
+  httpSourceTools?: boolean; // Also enable those tools over HTTP (stdio only by default)
+  localRoots?: string[];     // Directories under which add_source may index local directories (none by default)
 }
 
 export interface Config {
   sources: Source[];
-  embeddings: {
-    model: string;
-    dimensions: number;
-  };
+  embeddings: EmbeddingsConfig;
+  server?: ServerConfig;
 }
 
+// Last config change of this process: changes read and rewrite the whole file, so they run one at a time
+let pendingChange: Promise<unknown> = Promise.resolve();
+
 const DEFAULT_CONFIG: Config = {
   sources: [],
   embeddings: {
+    provider: 'ollama',
     model: 'mxbai-embed-large',
     dimensions: 1024
   }
@@ -34,7 +85,15 @@ const DEFAULT_CONFIG: Config = {
 export async function loadConfig(): Promise<Config> {
   try {
     const data = await fs.readFile(CONFIG_PATH, 'utf-8');
-    return JSON.parse(data);
+    const config: Config = JSON.parse(data);
+
+    // Sources added before kind/location existed are GitHub repositories
+    for (const source of config.sources) {
+      source.kind ??= 'github';
+      source.location ??= githubUrl(source.owner, source.repo);
+    }
+
+    return config;
   } catch (error) {
     // If config doesn't exist, create default
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -49,60 +108,79 @@ export async function saveConfig(config: Config): Promise<void> {
   await fs.writeFile(CONFIG_PATH, JSON.stringify(config, null, 2), 'utf-8');
 }
 
-export async function addSource(
-  owner: string,
-  repo: string,
-  branch: string,
+/**
+ * Load, change and save the config, after the other changes of this process
+ * (e.g., indexing jobs of the MCP server and add_source or remove_source calls of other sessions)
+ * @param change Modifies the config in place, nothing is saved if it throws
+ * @returns Result of change
+ */
+export function updateConfig<T>(change: (config: Config) => T | Promise<T>): Promise<T> {
+  const result = pendingChange.then(async () => {
+    const config = await loadConfig();
+    const value = await change(config);
+    await saveConfig(config);
+    return value;
+  });
+
+  pendingChange = result.catch(() => {});
+  return result;
+}
+
+export function addSource(
+  spec: RepoSpec,
   options: Partial<Source> = {}
 ): Promise<Source> {
-  const config = await loadConfig();
-  const id = generateRepoId(owner, repo, branch);
+  return updateConfig((config) => {
+    const { kind, location, owner, repo, branch } = spec;
+    const id = generateRepoId(spec);
 
-  // Check if source already exists
-  if (config.sources.find((s) => s.id === id)) {
-    throw new Error(`Repository ${owner}/${repo}@${branch} is already indexed`);
-  }
+    // Check if source already exists
+    const existing = findSourceBySpec(config.sources, spec);
+    if (existing) {
+      throw new Error(`Repository ${existing.owner}/${existing.repo}@${existing.branch} is already indexed`);
+    }
 
-  const source: Source = {
-    id,
-    owner,
-    repo,
-    branch,
-    addedAt: new Date().toISOString(),
-    status: 'pending',
-    ...options
-  };
+    const source: Source = {
+      id,
+      kind,
+      location,
+      owner,
+      repo,
+      branch,
+      addedAt: new Date().toISOString(),
+      status: 'pending',
+      ...options
+    };
 
-  config.sources.push(source);
-  await saveConfig(config);
+    config.sources.push(source);
 
-  return source;
+    return source;
+  });
 }
 
-export async function removeSource(id: string): Promise<void> {
-  const config = await loadConfig();
-  const index = config.sources.findIndex((s) => s.id === id);
+export function removeSource(id: string): Promise<void> {
+  return updateConfig((config) => {
+    const index = config.sources.findIndex((s) => s.id === id);
 
-  if (index === -1) {
-    throw new Error(`Source with ID "${id}" not found`);
-  }
+    if (index === -1) {
+      throw new Error(`Source with ID "${id}" not found`);
+    }
 
-  config.sources.splice(index, 1);
-  await saveConfig(config);
+    config.sources.splice(index, 1);
+  });
 }
 
-export async function updateSource(id: string, updates: Partial<Source>): Promise<Source> {
-  const config = await loadConfig();
-  const source = config.sources.find((s) => s.id === id);
-
-  if (!source) {
-    throw new Error(`Source with ID "${id}" not found`);
-  }
+export function updateSource(id: string, updates: Partial<Source>): Promise<Source> {
+  return updateConfig((config) => {
+    const source = config.sources.find((s) => s.id === id);
 
-  Object.assign(source, updates);
-  await saveConfig(config);
+    if (!source) {
+      throw new Error(`Source with ID "${id}" not found`);
+    }
 
-  return source;
+    Object.assign(source, updates);
+    return source;
+  });
 }
 
 export async function getSource(id: string): Promise<Source | undefined> {
@@ -110,6 +188,24 @@ export async function getSource(id: string): Promise<Source | undefined> {
   return config.sources.find((s) => s.id === id);
 }
 
+/**
+ * Get the source of a parsed specification (see parseRepoSpec)
+ * Local directories and repositories of other git hosts added before their ID identified
+ * their location are found by location.
+ */
+export async function getSourceBySpec(spec: RepoSpec): Promise<Source | undefined> {
+  const config = await loadConfig();
+  return findSourceBySpec(config.sources, spec);
+}
+
+function findSourceBySpec(sources: Source[], spec: RepoSpec): Source | undefined {
+  const id = generateRepoId(spec);
+  return sources.find((s) => s.id === id) ?? sources.find((s) =>
+    spec.kind !== 'github' && s.kind === spec.kind && s.location === spec.location &&
+    (spec.kind === 'local' || s.branch === spec.branch)
+  );
+}
+
 export async function getSourceByRepo(
   owner: string,
   repo: string,
@@ -121,6 +217,38 @@ export async function getSourceByRepo(
   );
 }
 
+/**
+ * Get the index generations to search for the given sources
+ * Sources that never finished indexing have no generation and are skipped
+ */
+export function getActiveGenerations(sources: Source[]): string[] {
+  return sources.flatMap((s) => (s.generation ? [s.generation] : []));
+}
+
+/**
+ * Split indexed sources between those embedded with the given model (and document prompt) and the others
+ * Vectors of different models are not comparable, only the matching sources can be searched.
+ * @param embedding Model and document prompt of the embedder (see Embedder.documentPrompt)
+ */
+export function partitionByEmbeddingModel(
+  sources: Source[],
+  embedding: { model: string; documentPrompt?: string }
+): { matching: Source[]; mismatched: Source[] } {
+  const indexed = sources.filter((s) => s.generation);
+  const matches = (s: Source) =>
+    s.embeddingModel === embedding.model && s.documentPrompt === embedding.documentPrompt;
+
+  return {
+    matching: indexed.filter(matches),
+    mismatched: indexed.filter((s) => !matches(s))
+  };
+}
+
+export async function getServerConfig(): Promise<ServerConfig> {
+  const config = await loadConfig();
+  return config.server ?? {};
+}
+
 export async function listSources(): Promise<Source[]> {
   const config = await loadConfig();
   return config.sources;
@@ -133,7 +261,13 @@ export async function listRepos(): Promise<
   Array<{
     owner: string;
     repo: string;
-    branches: Array<{ branch: string; docCount: number; lastUpdated?: string }>;
+    branches: Array<{
+      branch: string;
+      docCount: number;
+      lastUpdated?: string;
+      status: Source['status'];
+      error?: string;
+    }>;
   }>
 > {
   const sources = await listSources();
@@ -153,7 +287,9 @@ export async function listRepos(): Promise<
     repoMap.get(key).branches.push({
       branch: source.branch,
       docCount: source.docCount || 0,
-      lastUpdated: source.lastUpdated
+      lastUpdated: source.lastUpdated,
+      status: source.status,
+      error: source.error
     });
   }
 
@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+const CACHE_DIR = path.join(process.cwd(), 'data', 'cache', 'embeddings');
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Normalize text before hashing so that insignificant differences
+ * (line endings, trailing whitespace) share the same cache entry
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+/**
+ * Hash used as cache key for a text
+ */
+export function hashText(text: string): string {
+  return crypto.createHash('sha256').update(normalizeText(text)).digest('hex');
+}
+
+/**
+ * Persistent, content-addressed embedding cache
+ * Entries live in data/cache/embeddings/{model}/{hash[0..2]}/{hash}.bin as raw float32,
+ * so identical chunks are embedded once across sources, branches and syncs.
+ */
+export class EmbeddingCache {
+  readonly stats: CacheStats = { hits: 0, misses: 0 };
+  private readonly modelDir: string;
+
+  /**
+   * @param model Cache key of the embedder (see Embedder.cacheKey)
+   * @param dimensions Vector width of the embedder, cached vectors of another width are misses
+   */
+  constructor(readonly model: string, readonly dimensions?: number) {
+    this.modelDir = path.join(CACHE_DIR, modelDirName(model));
+  }
+
+  /**
+   * Embed texts, only calling the embedding function for cache misses
+   * Identical texts are embedded once (their copies count as hits).
+   * @param texts Texts to embed
+   * @param embedMissing Embeds the texts that are not cached yet
+   * @returns Vectors in the same order as texts
+   */
+  async embed(
+    texts: string[],
+    embedMissing: (texts: string[]) => Promise<number[][]>
+  ): Promise<number[][]> {
+    const hashes = texts.map(hashText);
+    const vectors: Array<number[] | undefined> = await Promise.all(hashes.map(hash => this.read(hash)));
+
+    // First text of each missing hash
+    const missing = new Map<string, number>();
+    vectors.forEach((vector, i) => {
+      if (!vector && !missing.has(hashes[i])) {
+        missing.set(hashes[i], i);
+      }
+    });
+
+    this.stats.hits += texts.length - missing.size;
+    this.stats.misses += missing.size;
+
+    if (missing.size > 0) {
+      const embedded = await embedMissing(Array.from(missing.values(), i => texts[i]));
+      const byHash = new Map<string, number[]>();
+
+      let j = 0;
+      for (const hash of missing.keys()) {
+        byHash.set(hash, embedded[j]);
+        await this.write(hash, embedded[j++]);
+      }
+
+      hashes.forEach((hash, i) => {
+        vectors[i] ??= byHash.get(hash);
+      });
+    }
+
+    return vectors as number[][];
+  }
+
+  private entryPath(hash: string): string {
+    return path.join(this.modelDir, hash.slice(0, 2), `${hash}.bin`);
+  }
+
+  private async read(hash: string): Promise<number[] | undefined> {
+    try {
+      const buffer = await fs.readFile(this.entryPath(hash));
+      if (buffer.length === 0 || buffer.length % 4 !== 0) {
+        return undefined;
+      }
+      // Written before embeddings.dimensions changed, embedded again and overwritten
+      if (this.dimensions && buffer.length !== this.dimensions * 4) {
+        return undefined;
+      }
+      const floats = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.length / 4);
+      return Array.from(floats);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(hash: string, vector: number[]): Promise<void> {
+    const filePath = this.entryPath(hash);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so that an interrupted run never leaves a truncated entry
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, Buffer.from(new Float32Array(vector).buffer));
+    await fs.rename(tmpPath, filePath);
+  }
+}
+
+export interface CacheUsage {
+  model: string;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Report the number of cached embeddings and disk usage per model
+ */
+export async function getCacheUsage(): Promise<CacheUsage[]> {
+  const usage: CacheUsage[] = [];
+
+  for (const model of await listDir(CACHE_DIR)) {
+    const entry: CacheUsage = { model, entries: 0, bytes: 0 };
+
+    for (const { filePath } of await listEntries(model)) {
+      const stat = await fs.stat(filePath);
+      entry.entries++;
+      entry.bytes += stat.size;
+    }
+
+    usage.push(entry);
+  }
+
+  return usage;
+}
+
+/**
+ * Delete cached embeddings whose text hash is not kept for their model
+ * @param keep Hashes (see hashText) still referenced by indexed chunks, per cache model
+ * (see Embedder.cacheKey), or null to clear everything
+ * @returns Number of entries and bytes removed
+ */
+export async function pruneCache(
+  keep: Map<string, Set<string>> | null
+): Promise<{ entries: number; bytes: number }> {
+  const removed = { entries: 0, bytes: 0 };
+
+  // Several models may share a directory name
+  const keptByDir = new Map<string, Set<string>>();
+  for (const [model, hashes] of keep ?? []) {
+    const dir = modelDirName(model);
+    keptByDir.set(dir, new Set([...(keptByDir.get(dir) ?? []), ...hashes]));
+  }
+
+  for (const model of await listDir(CACHE_DIR)) {
+    const kept = keptByDir.get(model);
+
+    for (const { hash, filePath } of await listEntries(model)) {
+      if (kept?.has(hash)) {
+        continue;
+      }
+
+      const stat = await fs.stat(filePath);
+      await fs.rm(filePath, { force: true });
+      removed.entries++;
+      removed.bytes += stat.size;
+    }
+  }
+
+  if (!keep) {
+    await fs.rm(CACHE_DIR, { recursive: true, force: true });
+  }
+
+  return removed;
+}
+
+/**
+ * Directory name for a model (e.g., "nomic-embed-text:v1.5" -> "nomic-embed-text_v1.5")
+ */
+function modelDirName(model: string): string {
+  return model.replace(/[^a-z0-9._-]/gi, '_');
+}
+
+async function listEntries(modelDir: string): Promise<Array<{ hash: string; filePath: string }>> {
+  const entries: Array<{ hash: string; filePath: string }> = [];
+  const root = path.join(CACHE_DIR, modelDir);
+
+  for (const shard of await listDir(root)) {
+    for (const file of await listDir(path.join(root, shard))) {
+      entries.push({
+        hash: path.basename(file, '.bin'),
+        filePath: path.join(root, shard, file)
+      });
+    }
+  }
+
+  return entries;
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
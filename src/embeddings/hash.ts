@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import type { EmbeddingsConfig } from '../config.js';
+import type { EmbeddingBackend, EmbedProgress } from './index.js';
+
+/**
+ * Deterministic offline embedder (feature hashing of word tokens)
+ * No model needed: meant for tests and CI. Similarity is purely lexical.
+ */
+export class HashEmbedder implements EmbeddingBackend {
+  readonly provider = 'hash';
+  model: string;
+  dimensions: number;
+
+  constructor(config: Partial<EmbeddingsConfig> = {}) {
+    this.model = config.model || 'hash';
+    this.dimensions = config.dimensions || 1024;
+  }
+
+  async embed(texts: string[], onProgress?: EmbedProgress): Promise<number[][]> {
+    const vectors = texts.map((text) => this.embedSingle(text));
+    onProgress?.(texts.length, texts.length);
+    return vectors;
+  }
+
+  private embedSingle(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+    for (const token of tokens) {
+      const digest = crypto.createHash('md5').update(token).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    // L2-normalize so that distances do not depend on text length
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+
+  displaySetupHelp(): void {
+    // Nothing to set up
+  }
+
+  async ensureAvailable(): Promise<void> {
+    // Always available
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Options of a request to an embedding server
+ */
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeout: number;  // Per attempt, in milliseconds
+  retries: number;  // Extra attempts after a transient failure
+}
+
+// First retry delay, doubled on every attempt (500ms, 1s, 2s, 4s, ...)
+const BASE_RETRY_DELAY = 500;
+
+/**
+ * Error returned by an embedding server, status is undefined for network failures and timeouts
+ */
+export type RequestError = Error & { status?: number; body?: string };
+
+/**
+ * POST a JSON body and parse the JSON response
+ * Network errors, timeouts, 429 and 5xx responses are retried with exponential backoff;
+ * other errors are thrown right away with the response status and body attached.
+ */
+export async function postJson<T>(url: string, body: unknown, options: RequestOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await postOnce<T>(url, body, options);
+    } catch (error: any) {
+      if (attempt >= options.retries || !isTransient(error)) {
+        throw error;
+      }
+
+      // Jitter spreads the retries of concurrent requests
+      const delay = BASE_RETRY_DELAY * 2 ** attempt * (0.5 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+async function postOnce<T>(url: string, body: unknown, options: RequestOptions): Promise<T> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(options.timeout)
+    });
+  } catch (error: any) {
+    if (error.name === 'TimeoutError') {
+      throw new Error(`Request to ${url} timed out after ${options.timeout}ms`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    const error: RequestError = new Error(`API error (${response.status}): ${text}`);
+    error.status = response.status;
+    error.body = text;
+    throw error;
+  }
+
+  return await response.json() as T;
+}
+
+function isTransient(error: RequestError): boolean {
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Run a function over batches of items with a bounded number of batches in flight
+ * @param items Items to process
+ * @param batchSize Items per batch
+ * @param concurrency Maximum number of batches processed at the same time
+ * @param processBatch Returns one result per item of the batch
+ * @param onProgress Called with the number of processed items after each batch
+ * @returns Results in the same order as items
+ */
+export async function mapBatches<T, R>(
+  items: T[],
+  batchSize: number,
+  concurrency: number,
+  processBatch: (batch: T[]) => Promise<R[]>,
+  onProgress?: (done: number, total: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const starts: number[] = [];
+  let done = 0;
+
+  for (let i = 0; i < items.length; i += batchSize) {
+    starts.push(i);
+  }
+
+  const worker = async () => {
+    for (let start = starts.shift(); start !== undefined; start = starts.shift()) {
+      const batch = items.slice(start, start + batchSize);
+      let batchResults: R[];
+
+      try {
+        batchResults = await processBatch(batch);
+      } catch (error) {
+        // Stop the other workers from starting new batches
+        starts.length = 0;
+        throw error;
+      }
+
+      batchResults.forEach((result, j) => {
+        results[start + j] = result;
+      });
+
+      done += batch.length;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, starts.length)) }, worker));
+
+  return results;
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import {
+  loadConfig,
+  type EmbeddingPrompts,
+  type EmbeddingProvider,
+  type EmbeddingsConfig,
+  type Source
+} from '../config.js';
+import { OllamaEmbedder } from './ollama.js';
+import { OpenAIEmbedder } from './openai.js';
+import { HashEmbedder } from './hash.js';
+import { applyPrompt, isRawPrompt, resolvePrompts } from './prompts.js';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProvider[] = ['ollama', 'openai', 'hash'];
+
+/**
+ * Progress callback of Embedder.embedDocuments
+ */
+export type EmbedProgress = (done: number, total: number) => void;
+
+/**
+ * Common interface of embedding providers (texts are embedded as given)
+ */
+export interface EmbeddingBackend {
+  readonly provider: EmbeddingProvider;
+  readonly model: string;
+  readonly dimensions: number;
+
+  /**
+   * Generate embeddings for an array of texts
+   * @param onProgress Called as batches complete with the number of embedded texts
+   * @returns Array of embedding vectors, in the same order as texts
+   */
+  embed(texts: string[], onProgress?: EmbedProgress): Promise<number[][]>;
+
+  /**
+   * Check if the provider is reachable and the model is available
+   */
+  checkHealth(): Promise<boolean>;
+
+  /**
+   * Ensure the provider is available
+   * @throws Error (after displaying setup help) if it is not
+   */
+  ensureAvailable(): Promise<void>;
+
+  /**
+   * Display help message for setting up the provider
+   */
+  displaySetupHelp(): void;
+}
+
+/**
+ * Embedder applying the query and document prompts of the model
+ * Retrieval-tuned models expect queries and passages to be embedded differently.
+ */
+export class Embedder {
+  readonly prompts: Required<EmbeddingPrompts>;
+
+  constructor(private readonly backend: EmbeddingBackend, prompts: Record<string, EmbeddingPrompts> = {}) {
+    this.prompts = resolvePrompts(backend.model, prompts);
+  }
+
+  get provider(): EmbeddingProvider {
+    return this.backend.provider;
+  }
+
+  get model(): string {
+    return this.backend.model;
+  }
+
+  get dimensions(): number {
+    return this.backend.dimensions;
+  }
+
+  /**
+   * Document prompt recorded on indexed sources, undefined when texts are embedded raw
+   */
+  get documentPrompt(): string | undefined {
+    return isRawPrompt(this.prompts.document) ? undefined : this.prompts.document;
+  }
+
+  /**
+   * Embedding cache namespace: document vectors depend on the model and the document prompt
+   */
+  get cacheKey(): string {
+    return embeddingCacheKey(this.provider, this.model, this.documentPrompt);
+  }
+
+  /**
+   * Embed a search query
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.backend.embed([applyPrompt(this.prompts.query, text)]);
+    return vector;
+  }
+
+  /**
+   * Embed documents (chunks) to be indexed
+   * @returns Array of embedding vectors, in the same order as texts
+   */
+  async embedDocuments(texts: string[], onProgress?: EmbedProgress): Promise<number[][]> {
+    return this.backend.embed(texts.map((text) => applyPrompt(this.prompts.document, text)), onProgress);
+  }
+
+  checkHealth(): Promise<boolean> {
+    return this.backend.checkHealth();
+  }
+
+  ensureAvailable(): Promise<void> {
+    return this.backend.ensureAvailable();
+  }
+
+  displaySetupHelp(): void {
+    this.backend.displaySetupHelp();
+  }
+}
+
+/**
+ * Embedding cache namespace of vectors embedded by a provider and model with a document prompt
+ * (see Embedder.cacheKey), e.g., to find the cached vectors of an indexed source
+ */
+export function embeddingCacheKey(provider: EmbeddingProvider, model: string, documentPrompt?: string): string {
+  const key = `${provider}-${model}`;
+  return documentPrompt
+    ? `${key}-${crypto.createHash('sha256').update(documentPrompt).digest('hex').slice(0, 8)}`
+    : key;
+}
+
+/**
+ * Create the embedder described by an embeddings config
+ */
+export function createEmbedder(config: EmbeddingsConfig): Embedder {
+  return new Embedder(createBackend(config), config.prompts);
+}
+
+function createBackend(config: EmbeddingsConfig): EmbeddingBackend {
+  const provider = config.provider || 'ollama';
+
+  switch (provider) {
+    case 'ollama':
+      return new OllamaEmbedder(config);
+    case 'openai':
+      return new OpenAIEmbedder(config);
+    case 'hash':
+      return new HashEmbedder(config);
+    default:
+      throw new Error(
+        `Unknown embedding provider "${provider}". Expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Create the embedder configured in feedd.config.json
+ */
+export async function loadEmbedder(): Promise<Embedder> {
+  const config = await loadConfig();
+  return createEmbedder(config.embeddings);
+}
+
+/**
+ * Explain why sources embedded with another model (or document prompt) cannot be queried with the configured one
+ */
+export function modelMismatchMessage(sources: Source[], embedder: Embedder): string {
+  const details = sources.map((s) => {
+    const model = s.embeddingModel === embedder.model
+      ? `${s.embeddingModel}, ${s.documentPrompt ? `document prompt "${s.documentPrompt}"` : 'no document prompt'}`
+      : s.embeddingModel ?? 'unknown model';
+    return `${s.owner}/${s.repo}@${s.branch} (${model})`;
+  });
+  const configured = embedder.documentPrompt
+    ? `${embedder.model} and its document prompt "${embedder.documentPrompt}"`
+    : embedder.model;
+
+  return `${details.join(', ')} ${sources.length === 1 ? 'was' : 'were'} not embedded with ${configured}, ` +
+    'the configured model. Run "feedd reembed" to re-embed.';
+}
@@ -1,65 +1,81 @@
 import chalk from 'chalk';
-
-export class OllamaEmbedder {
+import type { EmbeddingsConfig } from '../config.js';
+import type { EmbeddingBackend, EmbedProgress } from './index.js';
+import { mapBatches, postJson, type RequestError, type RequestOptions } from './http.js';
+
+// Defaults for Ollama's /api/embed endpoint
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_TIMEOUT = 120_000;
+const DEFAULT_RETRIES = 4;
+
+export class OllamaEmbedder implements EmbeddingBackend {
+  readonly provider = 'ollama';
   model = 'mxbai-embed-large';
   dimensions = 1024;
   baseUrl = 'http://localhost:11434';
+  private request: RequestOptions;
+  private batchSize: number;
+  private concurrency: number;
+
+  constructor(config?: Partial<EmbeddingsConfig>) {
+    this.model = config?.model || this.model;
+    this.dimensions = config?.dimensions || this.dimensions;
+    this.baseUrl = (config?.baseUrl || this.baseUrl).replace(/\/+$/, '');
+    this.batchSize = config?.batchSize || DEFAULT_BATCH_SIZE;
+    this.concurrency = config?.concurrency || DEFAULT_CONCURRENCY;
+    this.request = {
+      timeout: config?.timeout || DEFAULT_TIMEOUT,
+      retries: config?.retries ?? DEFAULT_RETRIES
+    };
+  }
 
   /**
    * Generate embeddings for an array of texts
+   * Texts are sent in batches to /api/embed, several batches at a time.
    * @param texts Array of text strings to embed
+   * @param onProgress Called after each batch with the number of embedded texts
    * @returns Array of embedding vectors
    */
-  async embed(texts: string[]): Promise<number[][]> {
-    const embeddings: number[][] = [];
-
-    // Process in batches of 5 to avoid timeout
-    const batchSize = 5;
-
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-
-      const batchEmbeddings = await Promise.all(
-        batch.map(text => this.embedSingle(text))
-      );
-
-      embeddings.push(...batchEmbeddings);
-
-      // Show progress
-      const progress = Math.min(i + batchSize, texts.length);
-      console.log(chalk.dim(`  Embedded ${progress}/${texts.length} chunks`));
-    }
-
-    return embeddings;
+  async embed(texts: string[], onProgress?: EmbedProgress): Promise<number[][]> {
+    return mapBatches(texts, this.batchSize, this.concurrency, (batch) => this.embedBatch(batch), onProgress);
   }
 
   /**
-   * Generate embedding for a single text
+   * Generate embeddings for one batch of texts
+   * Inputs longer than the model context are rejected rather than silently truncated,
+   * then embedded alone and truncated explicitly with a warning.
    */
-  private async embedSingle(text: string): Promise<number[]> {
+  private async embedBatch(texts: string[], truncate = false): Promise<number[][]> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/embeddings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: this.model,
-          prompt: text
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Ollama API error (${response.status}): ${errorText}`);
-      }
-
-      const data = await response.json() as { embedding: number[] };
-      return data.embedding;
+      const data = await postJson<{ embeddings: number[][] }>(
+        `${this.baseUrl}/api/embed`,
+        { model: this.model, input: texts, truncate },
+        this.request
+      );
+      return data.embeddings;
     } catch (error: any) {
-      if (error.code === 'ECONNREFUSED') {
+      if (error.cause?.code === 'ECONNREFUSED' || error.code === 'ECONNREFUSED') {
         throw new Error(
           'Cannot connect to Ollama. Make sure Ollama is running (ollama serve)'
         );
       }
+
+      if (!truncate && isContextLengthError(error)) {
+        if (texts.length > 1) {
+          // Find the offending inputs, the others are embedded untouched
+          return mapBatches(texts, 1, 1, (single) => this.embedBatch(single));
+        }
+
+        console.warn(chalk.yellow(
+          `  ⚠ Input of ${texts[0].length} characters exceeds the ${this.model} context, embedding it truncated`
+        ));
+        return this.embedBatch(texts, true);
+      }
+
+      if (error.status !== undefined) {
+        throw new Error(`Ollama ${error.message}`);
+      }
       throw error;
     }
   }
@@ -85,7 +101,7 @@ export class OllamaEmbedder {
       // Check if our model is available
       const models = data.models || [];
       const modelAvailable = models.some((m: any) =>
-        m.name.includes(this.model) || m.name.includes('mxbai-embed')
+        m.name.includes(this.model)
       );
 
       return modelAvailable;
@@ -97,18 +113,18 @@ export class OllamaEmbedder {
   /**
    * Display help message for setting up Ollama
    */
-  static displaySetupHelp(): void {
-    console.log(chalk.bold('\n📋 Ollama Setup Required\n'));
-    console.log(chalk.yellow('Ollama is not running or the embedding model is not available.'));
-    console.log(chalk.dim('\nTo set up Ollama:\n'));
-    console.log(chalk.cyan('  1. Install Ollama:'));
-    console.log(chalk.dim('     curl -fsSL https://ollama.com/install.sh | sh'));
-    console.log(chalk.dim('     # Or on macOS: brew install ollama\n'));
-    console.log(chalk.cyan('  2. Start Ollama:'));
-    console.log(chalk.dim('     ollama serve\n'));
-    console.log(chalk.cyan('  3. Pull the embedding model:'));
-    console.log(chalk.dim('     ollama pull mxbai-embed-large\n'));
-    console.log(chalk.dim('Once setup is complete, try running your command again.'));
+  displaySetupHelp(): void {
+    console.error(chalk.bold('\n📋 Ollama Setup Required\n'));
+    console.error(chalk.yellow('Ollama is not running or the embedding model is not available.'));
+    console.error(chalk.dim('\nTo set up Ollama:\n'));
+    console.error(chalk.cyan('  1. Install Ollama:'));
+    console.error(chalk.dim('     curl -fsSL https://ollama.com/install.sh | sh'));
+    console.error(chalk.dim('     # Or on macOS: brew install ollama\n'));
+    console.error(chalk.cyan('  2. Start Ollama:'));
+    console.error(chalk.dim('     ollama serve\n'));
+    console.error(chalk.cyan('  3. Pull the embedding model:'));
+    console.error(chalk.dim(`     ollama pull ${this.model}\n`));
+    console.error(chalk.dim('Once setup is complete, try running your command again.'));
   }
 
   /**
@@ -117,8 +133,12 @@ export class OllamaEmbedder {
    */
   async ensureAvailable(): Promise<void> {
     if (!await this.checkHealth()) {
-      OllamaEmbedder.displaySetupHelp();
+      this.displaySetupHelp();
       throw new Error('Ollama is not available');
     }
   }
 }
+
+function isContextLengthError(error: RequestError): boolean {
+  return error.status === 400 && /context length/i.test(error.body || '');
+}
@@ -0,0 +1,135 @@
+import chalk from 'chalk';
+import type { EmbeddingsConfig } from '../config.js';
+import type { EmbeddingBackend, EmbedProgress } from './index.js';
+import { mapBatches, postJson, type RequestOptions } from './http.js';
+
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_TIMEOUT = 120_000;
+const DEFAULT_RETRIES = 4;
+
+/**
+ * Embedder for any server implementing the OpenAI /v1/embeddings API
+ * (llama.cpp server, LM Studio, vLLM, LocalAI, ...)
+ */
+export class OpenAIEmbedder implements EmbeddingBackend {
+  readonly provider = 'openai';
+  model: string;
+  dimensions: number;
+  baseUrl = 'http://localhost:8080/v1';
+  private apiKey?: string;
+  private request: RequestOptions;
+  private batchSize: number;
+  private concurrency: number;
+
+  constructor(config: EmbeddingsConfig) {
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+    this.baseUrl = (config.baseUrl || this.baseUrl).replace(/\/+$/, '');
+    this.apiKey = config.apiKey || process.env.FEEDD_EMBEDDINGS_API_KEY;
+    this.batchSize = config.batchSize || DEFAULT_BATCH_SIZE;
+    this.concurrency = config.concurrency || DEFAULT_CONCURRENCY;
+    this.request = {
+      timeout: config.timeout || DEFAULT_TIMEOUT,
+      retries: config.retries ?? DEFAULT_RETRIES
+    };
+  }
+
+  /**
+   * Generate embeddings for an array of texts
+   * @param texts Array of text strings to embed
+   * @param onProgress Called after each batch with the number of embedded texts
+   * @returns Array of embedding vectors
+   */
+  async embed(texts: string[], onProgress?: EmbedProgress): Promise<number[][]> {
+    // The API accepts several inputs per request
+    return mapBatches(texts, this.batchSize, this.concurrency, (batch) => this.embedBatch(batch), onProgress);
+  }
+
+  /**
+   * Generate embeddings for one batch of texts
+   */
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    try {
+      const data = await postJson<{ data: Array<{ embedding: number[]; index: number }> }>(
+        `${this.baseUrl}/embeddings`,
+        { model: this.model, input: texts },
+        { ...this.request, headers: this.headers() }
+      );
+
+      // Results may come back in any order, index refers to the input position
+      return [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    } catch (error: any) {
+      if (error.cause?.code === 'ECONNREFUSED' || error.code === 'ECONNREFUSED') {
+        throw new Error(`Cannot connect to the embeddings server at ${this.baseUrl}`);
+      }
+      if (error.status !== undefined) {
+        throw new Error(`Embeddings ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Check if the server answers and serves the configured model
+   * Servers hosting a single model (llama.cpp) list it under its file name rather than
+   * the configured one, so a lone (or unlisted) model is accepted.
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.headers(),
+        signal: AbortSignal.timeout(3000)
+      });
+
+      if (!response.ok) {
+        return false;
+      }
+
+      const data = await response.json() as { data?: Array<{ id: string }> };
+      const models = data.data || [];
+
+      return models.length === 0 || models.length === 1 || models.some((m) => m.id.includes(this.model));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Display help message for setting up an OpenAI-compatible server
+   */
+  displaySetupHelp(): void {
+    console.error(chalk.bold('\n📋 Embeddings Server Required\n'));
+    console.error(chalk.yellow(`No OpenAI-compatible embeddings server is serving "${this.model}" at ${this.baseUrl}.`));
+    console.error(chalk.dim('\nStart one of:\n'));
+    console.error(chalk.cyan('  llama.cpp:'));
+    console.error(chalk.dim('     llama-server -m model.gguf --embeddings --port 8080\n'));
+    console.error(chalk.cyan('  LM Studio, vLLM or LocalAI:'));
+    console.error(chalk.dim('     load an embedding model and enable the local server\n'));
+    console.error(chalk.dim('Then set "embeddings.baseUrl" in feedd.config.json (e.g., http://localhost:8080/v1).'));
+  }
+
+  /**
+   * Ensure the server is running and the model is available
+   * @throws Error if the server is not available
+   */
+  async ensureAvailable(): Promise<void> {
+    if (!await this.checkHealth()) {
+      this.displaySetupHelp();
+      throw new Error(`Embeddings server is not available at ${this.baseUrl}`);
+    }
+  }
+}
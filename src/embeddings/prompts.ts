@@ -0,0 +1,57 @@
+import type { EmbeddingPrompts } from '../config.js';
+
+// Placeholder replaced by the text in prompt templates
+const TEXT_PLACEHOLDER = '{text}';
+
+// Instruction recommended for retrieval queries by mxbai, bge and arctic-embed
+const RETRIEVAL_INSTRUCTION = `Represent this sentence for searching relevant passages: ${TEXT_PLACEHOLDER}`;
+
+/**
+ * Prompts recommended by the authors of known retrieval models
+ * Matched against the lowercased model name, so tags and repository prefixes
+ * (e.g., "mxbai-embed-large:335m", "nomic-ai/nomic-embed-text-v1.5") are covered.
+ */
+const BUILT_IN_PROMPTS: Array<{ pattern: RegExp; prompts: EmbeddingPrompts }> = [
+  { pattern: /mxbai-embed-large/, prompts: { query: RETRIEVAL_INSTRUCTION } },
+  { pattern: /nomic-embed-text/, prompts: { query: 'search_query: {text}', document: 'search_document: {text}' } },
+  { pattern: /(^|[/_-])e5-/, prompts: { query: 'query: {text}', document: 'passage: {text}' } },
+  { pattern: /bge-(small|base|large)-(en|zh)/, prompts: { query: RETRIEVAL_INSTRUCTION } },
+  { pattern: /snowflake-arctic-embed/, prompts: { query: RETRIEVAL_INSTRUCTION } }
+];
+
+/**
+ * Resolve the query and document prompts of a model
+ * Prompts configured for the model (by exact name, or name without its tag)
+ * override the built-in ones; missing prompts embed the raw text.
+ * @param model Embedding model name
+ * @param configured Prompts from feedd.config.json, keyed by model name
+ */
+export function resolvePrompts(
+  model: string,
+  configured: Record<string, EmbeddingPrompts> = {}
+): Required<EmbeddingPrompts> {
+  const name = model.toLowerCase();
+  const builtIn = BUILT_IN_PROMPTS.find((entry) => entry.pattern.test(name))?.prompts;
+  const custom = configured[model] ?? configured[model.split(':')[0]];
+
+  return {
+    query: custom?.query ?? builtIn?.query ?? TEXT_PLACEHOLDER,
+    document: custom?.document ?? builtIn?.document ?? TEXT_PLACEHOLDER
+  };
+}
+
+/**
+ * Apply a prompt template to a text (templates without {text} are used as prefixes)
+ */
+export function applyPrompt(template: string, text: string): string {
+  return template.includes(TEXT_PLACEHOLDER)
+    ? template.split(TEXT_PLACEHOLDER).join(text)
+    : `${template}${text}`;
+}
+
+/**
+ * Check whether a template leaves the text unchanged
+ */
+export function isRawPrompt(template: string): boolean {
+  return template === TEXT_PLACEHOLDER || template === '';
+}
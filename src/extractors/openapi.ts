@@ -0,0 +1,351 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { mapBatches } from '../embeddings/http.js';
+import { pickFrontmatter, type ParsedMarkdown, type Section } from '../markdown/parser.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// JSON and YAML files of package managers and tools, never API descriptions
+const NON_SPEC_FILE = /^(package(-lock)?\.json|pnpm-lock\.yaml|composer\.(json|lock)|(ts|js)config(\..+)?\.json|\.?eslintrc.*|docker-compose.*|\.pre-commit-config\.yaml|\.gitlab-ci\.yml)$/;
+
+// Larger files are generated bundles, not worth parsing
+const MAX_SPEC_SIZE = 10 * 1024 * 1024;
+
+// Start of a file searched for the top-level "openapi" or "swagger" field (after license comments)
+const HEADER_SIZE = 8 * 1024;
+
+// Candidate files checked at the same time
+const DETECTION_CONCURRENCY = 16;
+
+/**
+ * Check if a file (relative to the repository root) may be an OpenAPI or Swagger description
+ * Its content is checked by isOpenApiFile.
+ */
+export function isOpenApiCandidatePath(relativePath: string): boolean {
+  const fileName = path.basename(relativePath).toLowerCase();
+  return /\.(ya?ml|json)$/.test(fileName) && !NON_SPEC_FILE.test(fileName);
+}
+
+/**
+ * Check if a file is an OpenAPI 3 or Swagger 2 description (top-level "openapi" or "swagger" field)
+ * Only the start of the file is read, specs declare their version first.
+ */
+export async function isOpenApiFile(filePath: string): Promise<boolean> {
+  let file: fs.FileHandle | undefined;
+
+  try {
+    file = await fs.open(filePath, 'r');
+    if ((await file.stat()).size > MAX_SPEC_SIZE) {
+      return false;
+    }
+
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(HEADER_SIZE), 0, HEADER_SIZE, 0);
+    return isOpenApiText(buffer.toString('utf-8', 0, bytesRead));
+  } catch {
+    return false;
+  } finally {
+    await file?.close();
+  }
+}
+
+function isOpenApiText(text: string): boolean {
+  return /^(openapi|swagger)\s*:/m.test(text) || /^\s*\{?\s*"(openapi|swagger)"\s*:/m.test(text);
+}
+
+/**
+ * Keep the OpenAPI descriptions of a list of candidate files
+ */
+export async function filterOpenApiFiles(filePaths: string[]): Promise<string[]> {
+  const checks = await mapBatches(filePaths, 1, DETECTION_CONCURRENCY, ([filePath]) =>
+    isOpenApiFile(filePath).then((check) => [check])
+  );
+  return filePaths.filter((_, i) => checks[i]);
+}
+
+/**
+ * Extract operations and schemas of OpenAPI descriptions
+ */
+export async function extractOpenApiFiles(
+  filePaths: string[],
+  repoPath: string
+): Promise<ParsedMarkdown[]> {
+  return Promise.all(filePaths.map((filePath) => extractOpenApi(filePath, repoPath)));
+}
+
+/**
+ * Turn an OpenAPI 3 or Swagger 2 description into one section per operation (method + path,
+ * parameters, request body, responses) and one per component schema
+ * Sections span the lines of their definition and carry the operation tags and deprecation.
+ * Files that are not API descriptions give a document without sections.
+ * @param filePath Absolute path to the .yaml/.yml/.json file
+ * @param repoPath Path to the repository root
+ */
+export async function extractOpenApi(filePath: string, repoPath: string): Promise<ParsedMarkdown> {
+  const text = await fs.readFile(filePath, 'utf-8');
+  const relativePath = path.relative(repoPath, filePath);
+  const spec = isOpenApiText(text) ? parseSpec(text, filePath) : undefined;
+  const lines = text.split('\n');
+  const sections: Section[] = [];
+
+  if (spec) {
+    for (const [apiPath, pathItem] of Object.entries<any>(spec.paths ?? {})) {
+      for (const method of HTTP_METHODS) {
+        if (pathItem?.[method]) {
+          sections.push(operationSection(spec, apiPath, method, pathItem, lines));
+        }
+      }
+    }
+
+    const schemas = spec.components?.schemas ?? spec.definitions ?? {};
+    const schemaKeys = spec.components?.schemas ? ['components', 'schemas'] : ['definitions'];
+    for (const [name, schema] of Object.entries<any>(schemas)) {
+      sections.push(schemaSection(name, schema, locate(lines, [...schemaKeys, name])));
+    }
+  }
+
+  const info = spec?.info ?? {};
+
+  return {
+    path: filePath,
+    relativePath,
+    content: sections.map((section) => section.content).join('\n\n'),
+    frontmatter: {},
+    sections,
+    metadata: {
+      title: info.title || path.basename(filePath, path.extname(filePath)),
+      ...pickFrontmatter({ description: firstParagraph(info.description), version: info.version })
+    }
+  };
+}
+
+function parseSpec(text: string, filePath: string): any {
+  try {
+    const spec = filePath.endsWith('.json') ? JSON.parse(text) : yaml.load(text);
+    return spec && typeof spec === 'object' && (spec.openapi || spec.swagger) ? spec : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function operationSection(spec: any, apiPath: string, method: string, pathItem: any, lines: string[]): Section {
+  const operation = pathItem[method];
+  const heading = `${method.toUpperCase()} ${apiPath}`;
+  const parts: string[] = [];
+
+  const intro = [operation.summary, operation.description].filter(Boolean).join('\n\n');
+  if (intro) {
+    parts.push(intro);
+  }
+
+  const facts = [
+    operation.operationId && `Operation ID: \`${operation.operationId}\``,
+    operation.tags?.length && `Tags: ${operation.tags.join(', ')}`,
+    operation.deprecated && '**Deprecated**'
+  ].filter(Boolean);
+  if (facts.length > 0) {
+    parts.push(facts.join('\n'));
+  }
+
+  // Operation parameters override path parameters with the same name and location
+  const parameters = new Map<string, any>();
+  for (const parameter of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])].map((p) => resolveRef(spec, p))) {
+    parameters.set(`${parameter?.in}:${parameter?.name}`, parameter);
+  }
+
+  const bodyParameter = Array.from(parameters.values()).find((parameter) => parameter?.in === 'body');
+  const listed = Array.from(parameters.values()).filter((parameter) => parameter && parameter.in !== 'body');
+  if (listed.length > 0) {
+    parts.push(['Parameters:', ...listed.map((parameter) =>
+      `- \`${parameter.name}\` (${parameter.in}, ${describeSchema(parameter.schema ?? parameter)}${parameter.required ? ', required' : ''})${parameter.description ? `: ${parameter.description}` : ''}`
+    )].join('\n'));
+  }
+
+  // OpenAPI 3 request body, or Swagger 2 body parameter
+  const requestBody = resolveRef(spec, operation.requestBody);
+  if (requestBody?.content || bodyParameter) {
+    const [mediaTypes, schema] = requestBody?.content
+      ? [Object.keys(requestBody.content), Object.values<any>(requestBody.content)[0]?.schema]
+      : [operation.consumes ?? spec.consumes ?? [], bodyParameter.schema];
+    const required = (requestBody ?? bodyParameter).required ? ', required' : '';
+    const description = (requestBody ?? bodyParameter).description;
+    parts.push(`Request body (${[...mediaTypes, ...(required ? ['required'] : [])].join(', ') || 'any'}): ${describeSchema(schema)}${description ? `\n${description}` : ''}`);
+  }
+
+  const responses = Object.entries<any>(operation.responses ?? {});
+  if (responses.length > 0) {
+    parts.push(['Responses:', ...responses.map(([status, value]) => {
+      const response = resolveRef(spec, value) ?? {};
+      const [mediaType, content] = Object.entries<any>(response.content ?? {})[0] ?? [];
+      const schema = content?.schema ?? response.schema;
+      const type = schema ? ` ${mediaType ? `(${mediaType}) ` : ''}${describeSchema(schema)}` : '';
+      return `- \`${status}\`${type}${response.description ? ` - ${response.description}` : ''}`;
+    })].join('\n'));
+  }
+
+  const { start, end } = locate(lines, ['paths', apiPath, method]);
+
+  return {
+    heading,
+    level: 1,
+    path: [heading],
+    anchor: `L${start}-L${end}`,
+    startLine: start,
+    endLine: end,
+    content: parts.join('\n\n'),
+    contentLine: start,
+    children: [],
+    symbol: operation.operationId ?? heading,
+    kind: 'operation',
+    metadata: pickFrontmatter({
+      description: operation.summary ?? firstParagraph(operation.description),
+      tags: operation.tags,
+      deprecated: operation.deprecated
+    })
+  };
+}
+
+function schemaSection(name: string, schema: any, { start, end }: LineRange): Section {
+  const parts: string[] = [];
+
+  if (schema?.description) {
+    parts.push(schema.description);
+  }
+
+  const required = new Set<string>(schema?.required ?? []);
+  const properties = Object.entries<any>(schema?.properties ?? {});
+
+  if (properties.length > 0) {
+    parts.push(['Properties:', ...properties.map(([property, value]) =>
+      `- \`${property}\` (${describeSchema(value)}${required.has(property) ? ', required' : ''})${value?.description ? `: ${value.description}` : ''}`
+    )].join('\n'));
+  } else {
+    parts.push(`Type: ${describeSchema(schema)}`);
+  }
+
+  return {
+    heading: name,
+    level: 1,
+    path: [name],
+    anchor: `L${start}-L${end}`,
+    startLine: start,
+    endLine: end,
+    content: parts.join('\n\n'),
+    contentLine: start,
+    children: [],
+    symbol: name,
+    kind: 'schema',
+    metadata: pickFrontmatter({ deprecated: schema?.deprecated })
+  };
+}
+
+/**
+ * Compact type of a schema (e.g., "Pet[]", "{ id: integer, tag?: string }", "\"asc\" | \"desc\"")
+ * References are shown by name and not followed.
+ */
+function describeSchema(schema: any, depth = 0): string {
+  if (!schema || typeof schema !== 'object') {
+    return 'any';
+  }
+  if (schema.$ref) {
+    return String(schema.$ref).split('/').pop()!;
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf).map((item: any) => describeSchema(item, depth)).join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map((item: any) => describeSchema(item, depth)).join(' & ');
+  }
+  if (schema.type === 'array') {
+    return `${describeSchema(schema.items, depth)}[]`;
+  }
+  if (schema.properties && depth < 2) {
+    const required = new Set<string>(schema.required ?? []);
+    const properties = Object.entries<any>(schema.properties)
+      .map(([name, value]) => `${name}${required.has(name) ? '' : '?'}: ${describeSchema(value, depth + 1)}`);
+    return `{ ${properties.join(', ')} }`;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type ?? 'object';
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+/**
+ * Follow a local reference ("#/components/parameters/limit") to the object it points to
+ */
+function resolveRef(spec: any, value: any): any {
+  if (!value?.$ref || !String(value.$ref).startsWith('#/')) {
+    return value;
+  }
+
+  return String(value.$ref)
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node: any, segment) => node?.[segment], spec);
+}
+
+function firstParagraph(text: unknown): string | undefined {
+  return typeof text === 'string' ? text.trim().split(/\n\s*\n/)[0] : undefined;
+}
+
+interface LineRange {
+  start: number;  // 1-based
+  end: number;
+}
+
+/**
+ * Find the lines of a nested key in a YAML or pretty-printed JSON document by indentation
+ * @param keys Path of keys from the top level (e.g., ["paths", "/pets", "get"])
+ * @returns The line range of the value, or the whole file if the key is not found
+ */
+function locate(lines: string[], keys: string[]): LineRange {
+  let from = 0;
+  let to = lines.length;
+  let start = -1;
+
+  for (const key of keys) {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^\\s*["']?${escaped}["']?\\s*:`);
+    start = -1;
+
+    for (let i = from; i < to; i++) {
+      if (pattern.test(lines[i])) {
+        start = i;
+        break;
+      }
+    }
+
+    if (start === -1) {
+      return { start: 1, end: lines.length };
+    }
+
+    from = start + 1;
+    to = blockEnd(lines, start) + 1;
+  }
+
+  return { start: start + 1, end: blockEnd(lines, start) + 1 };
+}
+
+/**
+ * Last line of the value of the key at a line (closing brace of JSON objects included)
+ */
+function blockEnd(lines: string[], start: number): number {
+  const indent = lines[start].match(/^\s*/)![0].length;
+  let end = start;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    if (lines[i].match(/^\s*/)![0].length <= indent) {
+      return /^\s*[}\]]/.test(lines[i]) ? i : end;
+    }
+    end = i;
+  }
+
+  return end;
+}
@@ -0,0 +1,464 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import type { ParsedMarkdown, Section } from '../markdown/parser.js';
+
+// Directories of tests and fixtures, their declarations are not part of the API
+const TEST_DIRS = new Set(['__tests__', '__mocks__', '__fixtures__', 'fixtures', 'test', 'tests', 'e2e']);
+
+/**
+ * Check if a file (relative to the repository root) is a TypeScript source or declaration file
+ * whose API should be extracted (tests and stories are skipped)
+ */
+export function isTypeScriptApiPath(relativePath: string): boolean {
+  const segments = relativePath.split(/[\\/]/);
+  const fileName = segments.pop() || '';
+
+  return /\.[mc]?ts$/.test(fileName) &&
+    !/\.(test|spec|stories)\.[mc]?ts$/.test(fileName) &&
+    !segments.some((segment) => TEST_DIRS.has(segment));
+}
+
+/**
+ * Extract the API of TypeScript files
+ */
+export async function extractTypeScriptApiFiles(
+  filePaths: string[],
+  repoPath: string
+): Promise<ParsedMarkdown[]> {
+  return Promise.all(filePaths.map((filePath) => extractTypeScriptApi(filePath, repoPath)));
+}
+
+/**
+ * Extract the exported symbols of a TypeScript (or .d.ts) file with their signatures and TSDoc
+ * Every symbol becomes a section (class members a subsection) spanning its declaration lines,
+ * made of the doc comment and the signature in a fenced code block, so that the API is chunked
+ * like markdown. Symbols tagged @internal or @private are skipped.
+ * @param filePath Absolute path to the TypeScript file
+ * @param repoPath Path to the repository root
+ */
+export async function extractTypeScriptApi(filePath: string, repoPath: string): Promise<ParsedMarkdown> {
+  const relativePath = path.relative(repoPath, filePath);
+  const sections = await collectModule(filePath, repoPath, new Set());
+
+  return {
+    path: filePath,
+    relativePath,
+    content: sections.map((section) => section.content).join('\n\n'),
+    frontmatter: {},
+    sections,
+    metadata: {
+      title: relativePath.replace(/(\.d)?\.[mc]?ts$/, '')
+    }
+  };
+}
+
+/**
+ * Sections of the exported declarations of a module, including the declarations it re-exports
+ * from other modules of the repository ("export { name } from './x'")
+ * @param visited Modules being collected, to stop at circular re-exports
+ */
+async function collectModule(filePath: string, repoPath: string, visited: Set<string>): Promise<Section[]> {
+  visited.add(filePath);
+
+  const text = await fs.readFile(filePath, 'utf-8');
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true);
+
+  // Declarations of global scripts (.d.ts without imports or exports) are all visible
+  const ambient = sourceFile.isDeclarationFile;
+  const globalScript = !ts.isExternalModule(sourceFile);
+
+  const sections: Section[] = [];
+  collectStatements(sourceFile.statements, '', ambient && globalScript, ambient, sourceFile, sections);
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportDeclaration(statement) || !statement.exportClause || !ts.isNamedExports(statement.exportClause) ||
+      !statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue;
+    }
+
+    const target = await resolveModule(filePath, statement.moduleSpecifier.text, repoPath);
+    if (!target || visited.has(target)) {
+      continue;
+    }
+
+    const targetSections = await collectModule(target, repoPath, visited);
+
+    for (const element of statement.exportClause.elements) {
+      const declared = targetSections.find((section) => section.symbol === (element.propertyName ?? element.name).text);
+      if (!declared) {
+        continue;
+      }
+
+      // The section spans the export specifier, its content is the declaration of the other module
+      const startLine = sourceFile.getLineAndCharacterOfPosition(element.getStart(sourceFile)).line + 1;
+      const endLine = sourceFile.getLineAndCharacterOfPosition(element.getEnd()).line + 1;
+      sections.push({
+        ...declared,
+        heading: element.name.text,
+        path: [element.name.text],
+        anchor: `L${startLine}-L${endLine}`,
+        startLine,
+        endLine,
+        contentLine: startLine,
+        children: [],
+        symbol: element.name.text
+      });
+    }
+  }
+
+  visited.delete(filePath);
+  return sections.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Find the TypeScript file of a relative module specifier ("./client.js" -> client.ts)
+ * @returns The absolute path, or undefined for packages and files outside of the repository
+ */
+async function resolveModule(fromFile: string, specifier: string, repoPath: string): Promise<string | undefined> {
+  if (!specifier.startsWith('.')) {
+    return undefined;
+  }
+
+  const base = path.resolve(path.dirname(fromFile), specifier).replace(/\.([mc]?)js$/, '.$1ts');
+  const stem = base.replace(/(\.d)?\.[mc]?ts$/, '');
+  const candidates = [base, `${stem}.ts`, `${stem}.d.ts`, path.join(base, 'index.ts'), path.join(base, 'index.d.ts')];
+
+  for (const candidate of candidates) {
+    const relative = path.relative(repoPath, candidate);
+    if (relative.startsWith('..') || !isTypeScriptApiPath(relative)) {
+      continue;
+    }
+    try {
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Add a section for every exported declaration of a block
+ * @param prefix Qualified name of the enclosing namespace (e.g., "React.")
+ * @param implicitExport Whether declarations are visible without the export keyword
+ * @param ambient Whether the block is a declaration context (.d.ts, declare)
+ */
+function collectStatements(
+  statements: ts.NodeArray<ts.Statement>,
+  prefix: string,
+  implicitExport: boolean,
+  ambient: boolean,
+  sourceFile: ts.SourceFile,
+  sections: Section[]
+): void {
+  const specified = localExports(statements);
+
+  for (const statement of statements) {
+    const exported = implicitExport || hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+
+    // Names a declaration is exported as, by its export keyword or an "export { name }" of the block
+    const exportedNames = (name: string) => [...(exported ? [name] : []), ...(specified.get(name) ?? [])];
+
+    if (ts.isModuleDeclaration(statement)) {
+      const body = moduleBody(statement);
+      if (!body) {
+        continue;
+      }
+
+      // declare module 'pkg' { ... } augments a package, its members are exported
+      if (ts.isStringLiteral(statement.name)) {
+        collectStatements(body.statements, prefix, true, true, sourceFile, sections);
+        continue;
+      }
+
+      const declared = ambient || hasModifier(statement, ts.SyntaxKind.DeclareKeyword);
+      for (const name of exportedNames(statement.name.getText(sourceFile))) {
+        const qualifiedName = [name, ...namespaceName(statement).split('.').slice(1)].join('.');
+        collectStatements(body.statements, `${prefix}${qualifiedName}.`, declared, declared, sourceFile, sections);
+      }
+      continue;
+    }
+
+    if (isInternal(statement)) {
+      continue;
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const initializer = declaration.initializer;
+        const isFunction = initializer !== undefined && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+
+        for (const name of exportedNames(declaration.name.getText(sourceFile))) {
+          addSection(sections, {
+            symbol: prefix + name,
+            kind: isFunction ? 'function' : 'variable',
+            node: statement,
+            signature: variableSignature(statement, declaration, sourceFile),
+            sourceFile
+          });
+        }
+      }
+      continue;
+    }
+
+    const kind = declarationKind(statement);
+    if (!kind) {
+      continue;
+    }
+
+    for (const name of exportedNames((statement as ts.DeclarationStatement).name?.getText(sourceFile) ?? 'default')) {
+      const section = addSection(sections, {
+        symbol: prefix + name,
+        kind,
+        node: statement,
+        signature: signatureOf(statement, sourceFile),
+        sourceFile
+      });
+
+      // Methods and documented properties of classes get their own sections
+      if (ts.isClassDeclaration(statement)) {
+        for (const member of statement.members.filter(isPublicMember)) {
+          const memberKind = memberKindOf(member);
+          if (!memberKind || (memberKind === 'property' && !docComment(member, sourceFile))) {
+            continue;
+          }
+
+          const memberName = ts.isConstructorDeclaration(member) ? 'constructor' : member.name?.getText(sourceFile);
+          addSection(section.children, {
+            symbol: `${prefix}${name}.${memberName}`,
+            kind: memberKind,
+            node: member,
+            signature: signatureOf(member, sourceFile),
+            sourceFile,
+            parent: section
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Names under which the declarations of a block are exported by export lists ("export { a, b as c }")
+ * @returns Exported names by local name
+ */
+function localExports(statements: ts.NodeArray<ts.Statement>): Map<string, string[]> {
+  const names = new Map<string, string[]>();
+
+  for (const statement of statements) {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const local = (element.propertyName ?? element.name).text;
+        names.set(local, [...(names.get(local) ?? []), element.name.text]);
+      }
+    }
+  }
+
+  return names;
+}
+
+interface ApiDeclaration {
+  symbol: string;
+  kind: string;
+  node: ts.Node;
+  signature: string;
+  sourceFile: ts.SourceFile;
+  parent?: Section;
+}
+
+/**
+ * Add the section of a declaration, overloads are merged into the section of their symbol
+ */
+function addSection(sections: Section[], declaration: ApiDeclaration): Section {
+  const { symbol, kind, node, signature, sourceFile, parent } = declaration;
+  const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile, true)).line + 1;
+  const endLine = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+  const doc = docComment(node, sourceFile);
+
+  const existing = sections.find((section) => section.symbol === symbol);
+  if (existing) {
+    // The implementation signature of overloads is not callable, only its lines are kept
+    const implementation = ts.isFunctionLike(node) && 'body' in node && node.body !== undefined;
+    if (!implementation) {
+      const docs = doc && !existing.content.includes(doc) ? [doc] : [];
+      existing.content += `\n\n${[...docs, fence(signature)].join('\n\n')}`;
+    }
+    existing.endLine = Math.max(existing.endLine, endLine);
+    existing.anchor = `L${existing.startLine}-L${existing.endLine}`;
+    return existing;
+  }
+
+  const heading = symbol.split('.').pop()!;
+  const section: Section = {
+    heading,
+    level: parent ? parent.level + 1 : 1,
+    path: parent ? [...parent.path, heading] : [symbol],
+    anchor: `L${startLine}-L${endLine}`, // GitHub line anchor of the declaration
+    startLine,
+    endLine,
+    content: [doc, fence(signature)].filter(Boolean).join('\n\n'),
+    contentLine: startLine,
+    children: [],
+    symbol,
+    kind,
+    metadata: isDeprecated(node) || parent?.metadata?.deprecated ? { deprecated: true } : undefined
+  };
+
+  sections.push(section);
+  return section;
+}
+
+function fence(signature: string): string {
+  return `\`\`\`typescript\n${signature}\n\`\`\``;
+}
+
+function declarationKind(node: ts.Statement): string | undefined {
+  if (ts.isFunctionDeclaration(node)) {
+    return 'function';
+  }
+  if (ts.isClassDeclaration(node)) {
+    return 'class';
+  }
+  if (ts.isInterfaceDeclaration(node)) {
+    return 'interface';
+  }
+  if (ts.isTypeAliasDeclaration(node)) {
+    return 'type';
+  }
+  if (ts.isEnumDeclaration(node)) {
+    return 'enum';
+  }
+  return undefined;
+}
+
+function memberKindOf(member: ts.ClassElement): string | undefined {
+  if (ts.isConstructorDeclaration(member)) {
+    return 'constructor';
+  }
+  if (ts.isMethodDeclaration(member)) {
+    return 'method';
+  }
+  if (ts.isPropertyDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+    return 'property';
+  }
+  return undefined;
+}
+
+/**
+ * Declaration text without implementation: function bodies and private class members are left out
+ */
+function signatureOf(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const text = sourceFile.text;
+  const start = node.getStart(sourceFile);
+
+  if (ts.isClassDeclaration(node)) {
+    // members.pos is right after the opening brace
+    const head = text.slice(start, node.members.pos).trim();
+    const members = node.members
+      .filter(isPublicMember)
+      .map((member) => `  ${signatureOf(member, sourceFile).replace(/\n/g, '\n  ')}`);
+    return [head, ...members, '}'].join('\n');
+  }
+
+  if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+    return `${text.slice(start, (node.body as ts.Node).getStart(sourceFile)).trim()};`;
+  }
+
+  if (ts.isPropertyDeclaration(node) && node.initializer && node.type) {
+    return `${text.slice(start, node.type.getEnd())};`;
+  }
+
+  return node.getText(sourceFile);
+}
+
+/**
+ * Signature of an exported variable, functions keep their parameters and return type
+ */
+function variableSignature(
+  statement: ts.VariableStatement,
+  declaration: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile
+): string {
+  const flags = statement.declarationList.flags;
+  const keyword = flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var';
+  const modifiers = (ts.getModifiers(statement) ?? []).map((modifier) => modifier.getText(sourceFile)).join(' ');
+  const head = `${modifiers ? `${modifiers} ` : ''}${keyword} ${declaration.name.getText(sourceFile)}`;
+  const initializer = declaration.initializer;
+
+  if (declaration.type) {
+    return `${head}: ${declaration.type.getText(sourceFile)};`;
+  }
+
+  if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+    const signature = sourceFile.text.slice(initializer.getStart(sourceFile), initializer.body.getStart(sourceFile)).trim();
+    return `${head} = ${signature} ...;`;
+  }
+
+  // Short values (constants, defaults) are part of the API, large literals are not
+  const value = initializer?.getText(sourceFile);
+  return value && value.length <= 200 ? `${head} = ${value};` : `${head};`;
+}
+
+/**
+ * Text of the doc comments of a declaration, without comment markers
+ */
+function docComment(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return ts.getJSDocCommentsAndTags(node)
+    .filter(ts.isJSDoc)
+    .map((doc) =>
+      sourceFile.text
+        .slice(doc.getStart(sourceFile), doc.getEnd())
+        .replace(/^\/\*\*\s*|\s*\*\/$/g, '')
+        .split('\n')
+        .map((line) => line.replace(/^\s*\* ?/, ''))
+        .join('\n')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function isDeprecated(node: ts.Node): boolean {
+  return ts.getJSDocTags(node).some((tag) => tag.tagName.text === 'deprecated');
+}
+
+function isInternal(node: ts.Node): boolean {
+  return ts.getJSDocTags(node).some((tag) => tag.tagName.text === 'internal' || tag.tagName.text === 'private');
+}
+
+function isPublicMember(member: ts.ClassElement): boolean {
+  return !(member.name && ts.isPrivateIdentifier(member.name)) &&
+    !hasModifier(member, ts.SyntaxKind.PrivateKeyword) &&
+    !ts.isClassStaticBlockDeclaration(member) &&
+    !ts.isSemicolonClassElement(member) &&
+    !isInternal(member);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+}
+
+/**
+ * Body of a namespace, following dotted names (namespace a.b.c { ... })
+ */
+function moduleBody(node: ts.ModuleDeclaration): ts.ModuleBlock | undefined {
+  let body = node.body;
+  while (body && ts.isModuleDeclaration(body)) {
+    body = body.body;
+  }
+  return body && ts.isModuleBlock(body) ? body : undefined;
+}
+
+function namespaceName(node: ts.ModuleDeclaration): string {
+  const names = [node.name.getText()];
+  let body = node.body;
+  while (body && ts.isModuleDeclaration(body)) {
+    names.push(body.name.getText());
+    body = body.body;
+  }
+  return names.join('.');
+}
@@ -1,26 +1,83 @@
-import simpleGit from 'simple-git';
+import simpleGit, { type SimpleGit } from 'simple-git';
+import crypto from 'crypto';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import chalk from 'chalk';
+import { getSupportedExtensions } from '../markdown/registry.js';
 
 export interface GitOptions {
   depth?: number;
   branch?: string;
 }
 
+export type SourceKind = 'github' | 'git' | 'local';
+
+/**
+ * Where a source lives and how to refer to it
+ * - github: owner/repo on github.com
+ * - git: any other git remote (ssh, https, file://)
+ * - local: a directory on this machine, indexed in place
+ */
+export interface RepoSpec {
+  kind: SourceKind;
+  location: string;
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+/**
+ * Globs selecting the files of a source, relative to the repository root (e.g., "docs/**")
+ * Files must match one of the include globs (when there are any) and none of the exclude globs.
+ */
+export interface PathFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
 /**
- * Clone or pull a GitHub repository
- * @param owner Repository owner (e.g., "facebook")
- * @param repo Repository name (e.g., "react")
- * @param branch Branch to clone (default: "main")
- * @returns Path to the cloned repository
+ * Branch name prefix of local directories (indexed as-is, no checkout)
  */
-export async function cloneOrPull(
-  owner: string,
-  repo: string,
-  branch: string = 'main'
-): Promise<string> {
-  const repoPath = path.join(process.cwd(), 'data', 'repos', owner, repo, branch);
+export const LOCAL_BRANCH = 'local';
+
+/**
+ * Get the directory holding the files of a source
+ * Local sources are read in place, remote ones are cloned under data/repos
+ */
+export function getRepoPath(spec: RepoSpec & { id?: string }): string {
+  if (spec.kind === 'local') {
+    return spec.location;
+  }
+
+  // Like their ID, clones of other git hosts carry the hash of their location
+  // (sources added before keep their ID and their clone)
+  const hashed = spec.kind === 'git' && (spec.id === undefined || spec.id === generateRepoId(spec));
+  const repo = hashed ? `${spec.repo}-${locationHash(spec.location)}` : spec.repo;
+
+  return path.join(process.cwd(), 'data', 'repos', spec.owner, repo, spec.branch);
+}
+
+/**
+ * Clone or pull a repository (local directories are used in place)
+ * With include/exclude globs, only the selected files are checked out (sparse checkout).
+ * @param spec Source specification (see parseRepoSpec) and its path filters
+ * @returns Path to the repository files
+ */
+export async function cloneOrPull(spec: RepoSpec & PathFilters): Promise<string> {
+  const { owner, repo, branch } = spec;
+  const repoPath = getRepoPath(spec);
+  const sparse = hasPathFilters(spec);
+
+  if (spec.kind === 'local') {
+    if (!await pathExists(repoPath)) {
+      throw new Error(`Local directory not found: ${repoPath}`);
+    }
+
+    console.error(chalk.dim(`  Using local directory ${repoPath}`));
+    return repoPath;
+  }
+
   const git = simpleGit();
 
   try {
@@ -29,33 +86,42 @@ export async function cloneOrPull(
 
     if (exists) {
       // Repository exists, pull latest changes
-      console.log(chalk.dim(`  Pulling latest changes from ${owner}/${repo}@${branch}...`));
+      console.error(chalk.dim(`  Pulling latest changes from ${owner}/${repo}@${branch}...`));
       const repoGit = simpleGit(repoPath);
 
+      // Filters may have changed since the clone
+      await applySparseCheckout(repoGit, spec);
+
       try {
         await repoGit.pull('origin', branch);
-        console.log(chalk.green(`  ✓ Updated ${owner}/${repo}@${branch}`));
+        console.error(chalk.green(`  ✓ Updated ${owner}/${repo}@${branch}`));
       } catch (error: any) {
-        console.log(chalk.yellow(`  ⚠ Could not pull: ${error.message}`));
-        console.log(chalk.dim('  Using existing local copy'));
+        console.error(chalk.yellow(`  ⚠ Could not pull: ${error.message}`));
+        console.error(chalk.dim('  Using existing local copy'));
       }
     } else {
       // Repository doesn't exist, clone it
-      console.log(chalk.dim(`  Cloning ${owner}/${repo}@${branch}...`));
+      console.error(chalk.dim(`  Cloning ${owner}/${repo}@${branch}...`));
       const parentDir = path.dirname(repoPath);
       await fs.mkdir(parentDir, { recursive: true });
 
-      const repoUrl = `https://github.com/${owner}/${repo}.git`;
-
-      await git.clone(repoUrl, repoPath, [
+      await git.clone(spec.location, repoPath, [
         '--branch',
         branch,
         '--depth',
         '1',
-        '--single-branch'
+        '--single-branch',
+        // Only fetch the blobs of the checked out files
+        ...(sparse ? ['--filter=blob:none', '--no-checkout'] : [])
       ]);
 
-      console.log(chalk.green(`  ✓ Cloned ${owner}/${repo}@${branch}`));
+      if (sparse) {
+        const repoGit = simpleGit(repoPath);
+        await applySparseCheckout(repoGit, spec);
+        await repoGit.checkout(branch);
+      }
+
+      console.error(chalk.green(`  ✓ Cloned ${owner}/${repo}@${branch}`));
     }
 
     return repoPath;
@@ -65,24 +131,93 @@ export async function cloneOrPull(
 }
 
 /**
- * Find all markdown files in a directory recursively
+ * Check if a source selects its files with include or exclude globs
+ */
+export function hasPathFilters(filters: PathFilters): boolean {
+  return Boolean(filters.include?.length || filters.exclude?.length);
+}
+
+/**
+ * Sparse checkout patterns (gitignore syntax, non-cone mode) of include/exclude globs
+ * Patterns are anchored at the repository root like the globs ("*.md" only matches top-level files).
+ */
+export function sparseCheckoutPatterns(filters: PathFilters): string[] {
+  const anchor = (glob: string) => expandBraces(glob).map((pattern) => `/${pattern.replace(/^\.?\//, '')}`);
+
+  return [
+    ...(filters.include?.length ? filters.include.flatMap(anchor) : ['/*']),
+    ...(filters.exclude ?? []).flatMap(anchor).map((pattern) => `!${pattern}`)
+  ];
+}
+
+/**
+ * Restrict the working tree of a clone to the files selected by its globs,
+ * or restore the full tree of a sparse clone whose globs were removed
+ */
+async function applySparseCheckout(repoGit: SimpleGit, filters: PathFilters): Promise<void> {
+  if (hasPathFilters(filters)) {
+    const patterns = sparseCheckoutPatterns(filters);
+    console.error(chalk.dim(`  Sparse checkout: ${patterns.join(' ')}`));
+    await repoGit.raw(['sparse-checkout', 'set', '--no-cone', ...patterns]);
+    return;
+  }
+
+  const sparseCheckout = await repoGit.raw(['config', '--get', 'core.sparseCheckout']).catch(() => '');
+  if (sparseCheckout.trim() === 'true') {
+    await repoGit.raw(['sparse-checkout', 'disable']);
+  }
+}
+
+/**
+ * Expand "{a,b}" alternatives, which gitignore patterns do not support
+ */
+function expandBraces(glob: string): string[] {
+  const match = glob.match(/\{([^{}]*)\}/);
+  if (!match || match.index === undefined) {
+    return [glob];
+  }
+
+  const before = glob.slice(0, match.index);
+  const after = glob.slice(match.index + match[0].length);
+  return match[1].split(',').flatMap((alternative) => expandBraces(`${before}${alternative}${after}`));
+}
+
+const IGNORED_DIRS = new Set([
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  '.next',
+  'out',
+  'coverage',
+  '.cache',
+  'vendor',
+  '__pycache__'
+]);
+
+/**
+ * Check if a file (relative to the repository root) should be indexed
+ * Files of every format of the parser registry are indexed (markdown, reST, AsciiDoc).
+ */
+export function isIndexablePath(relativePath: string): boolean {
+  const segments = relativePath.split(/[\\/]/);
+  const fileName = segments.pop() || '';
+
+  return getSupportedExtensions().some((extension) => fileName.toLowerCase().endsWith(extension)) &&
+    !segments.some((segment) => IGNORED_DIRS.has(segment));
+}
+
+/**
+ * Find the files of a directory (recursively) accepted by a predicate, ignored directories are skipped
  * @param repoPath Path to the repository
- * @returns Array of absolute paths to markdown files
+ * @param include Called with the path of each file relative to the repository root
+ * @returns Array of absolute paths
  */
-export async function findMarkdownFiles(repoPath: string): Promise<string[]> {
+export async function findFiles(
+  repoPath: string,
+  include: (relativePath: string) => boolean
+): Promise<string[]> {
   const files: string[] = [];
-  const ignoreDirs = new Set([
-    'node_modules',
-    '.git',
-    'dist',
-    'build',
-    '.next',
-    'out',
-    'coverage',
-    '.cache',
-    'vendor',
-    '__pycache__'
-  ]);
 
   async function walk(dir: string) {
     try {
@@ -90,7 +225,7 @@ export async function findMarkdownFiles(repoPath: string): Promise<string[]> {
 
       for (const entry of entries) {
         // Skip ignored directories
-        if (ignoreDirs.has(entry.name)) {
+        if (IGNORED_DIRS.has(entry.name)) {
           continue;
         }
 
@@ -98,7 +233,7 @@ export async function findMarkdownFiles(repoPath: string): Promise<string[]> {
 
         if (entry.isDirectory()) {
           await walk(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        } else if (entry.isFile() && include(path.relative(repoPath, fullPath))) {
           files.push(fullPath);
         }
       }
@@ -112,6 +247,77 @@ export async function findMarkdownFiles(repoPath: string): Promise<string[]> {
   return files;
 }
 
+export interface FileChange {
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  path: string;
+  oldPath?: string; // Only set for renames
+}
+
+/**
+ * Get the commit SHA checked out in a repository
+ * @returns The HEAD SHA, or undefined if the directory is not a git repository
+ */
+export async function getHeadCommit(repoPath: string): Promise<string | undefined> {
+  try {
+    const sha = await simpleGit(repoPath).revparse(['HEAD']);
+    return sha.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List files changed between two commits
+ * @param repoPath Path to the repository
+ * @param from Previously indexed commit
+ * @param to New commit (usually HEAD)
+ * @returns Changed files, paths relative to the repository root
+ * @throws Error if one of the commits is not available locally
+ */
+export async function getChangedFiles(
+  repoPath: string,
+  from: string,
+  to: string
+): Promise<FileChange[]> {
+  const output = await simpleGit(repoPath).raw([
+    'diff',
+    '--name-status',
+    '-M',
+    from,
+    to
+  ]);
+
+  const changes: FileChange[] = [];
+
+  for (const line of output.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const [status, ...paths] = line.split('\t');
+
+    switch (status[0]) {
+      case 'A':
+        changes.push({ status: 'added', path: paths[0] });
+        break;
+      case 'D':
+        changes.push({ status: 'deleted', path: paths[0] });
+        break;
+      case 'R':
+        changes.push({ status: 'renamed', oldPath: paths[0], path: paths[1] });
+        break;
+      case 'C':
+        changes.push({ status: 'added', path: paths[1] });
+        break;
+      default:
+        // M (modified), T (type change), etc.
+        changes.push({ status: 'modified', path: paths[paths.length - 1] });
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Check if a path exists
  */
@@ -125,24 +331,102 @@ async function pathExists(path: string): Promise<boolean> {
 }
 
 /**
- * Parse a repo specification string (e.g., "facebook/react" or "facebook/react@v18.2.0")
- * @param repoSpec Repo specification string
- * @returns Parsed owner, repo, and branch
+ * Parse a source specification string. Supported forms:
+ * - "facebook/react" or "facebook/react@v18.2.0" (GitHub)
+ * - "./docs", "/srv/wiki" or "~/notes" (local directory, its branch identifies the absolute path)
+ * - "git@gitlab.internal:team/handbook.git", "https://git.example.com/team/handbook.git",
+ *   "file:///repos/foo.git" (any git remote, optional "#branch" suffix)
+ * @param repoSpec Source specification string
+ * @returns Parsed kind, location, owner, repo, and branch
  */
-export function parseRepoSpec(repoSpec: string): { owner: string; repo: string; branch: string } {
+export function parseRepoSpec(repoSpec: string): RepoSpec {
+  if (isLocalSpec(repoSpec)) {
+    const location = path.resolve(repoSpec.replace(/^~(?=$|\/)/, os.homedir()));
+
+    return {
+      kind: 'local',
+      location,
+      owner: path.basename(path.dirname(location)) || 'local',
+      repo: path.basename(location),
+      branch: localBranch(location)
+    };
+  }
+
+  if (isGitUrl(repoSpec)) {
+    const [url, branch = 'main'] = repoSpec.split('#');
+    const segments = url
+      .replace(/^[a-z+]+:\/\/[^/]*/i, '') // scheme://host (file:// has an empty host)
+      .replace(/^[^@/]+@[^:]+:/, '')        // scp-like user@host:
+      .replace(/\.git\/?$/, '')
+      .split('/')
+      .filter(Boolean);
+
+    const repo = segments.pop();
+    const owner = segments.pop() || 'git';
+
+    if (!repo) {
+      throw new Error(`Invalid git URL: ${repoSpec}`);
+    }
+
+    const githubMatch = url.match(/^(?:https:\/\/|git@)github\.com[/:]/);
+
+    return {
+      kind: githubMatch ? 'github' : 'git',
+      location: githubMatch ? githubUrl(owner, repo) : url,
+      owner,
+      repo,
+      branch
+    };
+  }
+
   const [repoPath, branch = 'main'] = repoSpec.split('@');
   const [owner, repo] = repoPath.split('/');
 
   if (!owner || !repo) {
-    throw new Error(`Invalid repo specification: ${repoSpec}. Expected format: owner/repo or owner/repo@branch`);
+    throw new Error(`Invalid repo specification: ${repoSpec}. Expected format: owner/repo, owner/repo@branch, a local path or a git URL`);
   }
 
-  return { owner, repo, branch };
+  return { kind: 'github', location: githubUrl(owner, repo), owner, repo, branch };
+}
+
+/**
+ * Clone URL of a GitHub repository
+ */
+export function githubUrl(owner: string, repo: string): string {
+  return `https://github.com/${owner}/${repo}.git`;
+}
+
+/**
+ * Branch name of a local directory, e.g., "local-3f9a2c1b"
+ * Directories with the same parent and name (/a/docs/site, /b/docs/site) get different source IDs.
+ */
+function localBranch(location: string): string {
+  return `${LOCAL_BRANCH}-${locationHash(location)}`;
+}
+
+/**
+ * Short hash of the location of a source (absolute path or clone URL)
+ */
+function locationHash(location: string): string {
+  return crypto.createHash('sha256').update(location).digest('hex').slice(0, 8);
+}
+
+function isLocalSpec(spec: string): boolean {
+  return spec === '.' || spec.startsWith('./') || spec.startsWith('../') ||
+    spec === '~' || spec.startsWith('~/') || path.isAbsolute(spec);
+}
+
+function isGitUrl(spec: string): boolean {
+  return /^[a-z+]+:\/\//i.test(spec) || /^[^@/\s]+@[^:/\s]+:/.test(spec);
 }
 
 /**
  * Generate a unique ID for a repo + branch combination
+ * Repositories of git hosts other than GitHub get the hash of their URL, so that
+ * git@gitlab.internal:team/handbook.git and GitHub's team/handbook don't collide.
  */
-export function generateRepoId(owner: string, repo: string, branch: string): string {
-  return `${owner}-${repo}-${branch}`.replace(/[^a-z0-9-]/gi, '-').toLowerCase();
+export function generateRepoId(spec: RepoSpec): string {
+  const { kind, location, owner, repo, branch } = spec;
+  const id = kind === 'git' ? `${owner}-${repo}-${branch}-${locationHash(location)}` : `${owner}-${repo}-${branch}`;
+  return id.replace(/[^a-z0-9-]/gi, '-').toLowerCase();
 }
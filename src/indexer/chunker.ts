@@ -1,6 +1,12 @@
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { encoding_for_model } from 'tiktoken';
-import type { ParsedMarkdown } from '../markdown/parser.js';
+import {
+  splitFencedBlocks,
+  type IndexedFrontmatter,
+  type MarkdownBlock,
+  type ParsedMarkdown,
+  type Section
+} from '../markdown/parser.js';
 
 // Initialiser l'encodeur tiktoken pour compter les tokens
 const encoder = encoding_for_model('gpt-4');
@@ -8,30 +14,51 @@ const encoder = encoding_for_model('gpt-4');
 /**
  * Compte le nombre de tokens dans un texte
  */
-function countTokens(text: string): number {
+export function countTokens(text: string): number {
   const tokens = encoder.encode(text);
   return tokens.length;
 }
 
 export interface Chunk {
   content: string;
-  metadata: {
+  metadata: IndexedFrontmatter & {
     source_id: string;
     title: string;
     h1?: string;
     h2?: string;
     h3?: string;
+    section?: string;    // Heading path of the chunk (e.g., "Hooks > useEffect > Cleanup")
+    anchor?: string;     // Slug of the chunk's section heading
+    start_line: number;  // Line range of the chunk in the file (1-based)
+    end_line: number;
+    languages: string[]; // Languages of the code blocks in the chunk
+    symbol?: string;     // API symbol of extracted sections (e.g., "Router.push")
+    kind?: string;       // Kind of the API symbol (function, class, method...)
     file_path: string;
   };
 }
 
+/**
+ * Piece of a section that is never split further: a prose piece or a (part of a) code block
+ */
+interface ChunkUnit {
+  text: string;
+  tokens: number;
+  startLine: number;   // 0-based line range within the section content
+  endLine: number;
+  language?: string;
+  standalone: boolean; // Overlapping prose piece, never merged with its neighbours
+}
+
 // Configuration du splitter (sera mise à jour dynamiquement)
 let textSplitter: RecursiveCharacterTextSplitter;
+let maxTokens: number;
 
 /**
  * Configure le chunker avec la taille max et l'overlap
  */
 export function configureChunker(chunkSize: number, chunkOverlap: number): void {
+  maxTokens = chunkSize;
   textSplitter = new RecursiveCharacterTextSplitter({
     chunkSize,
     chunkOverlap,
@@ -65,34 +92,221 @@ export async function chunkParsedMarkdown(
 
 /**
  * Chunk a single parsed markdown document
+ * Sections are chunked independently, so that each chunk carries its own heading path.
  */
 async function chunkSingleDocument(
   doc: ParsedMarkdown,
   sourceId: string
 ): Promise<Chunk[]> {
-  // Build header context
-  const headers = [doc.metadata.h1, doc.metadata.h2, doc.metadata.h3]
-    .filter(Boolean)
-    .join(' > ');
-
-  // Prepare text with headers (for better context in chunks)
-  const textToChunk = headers ? `${headers}\n\n${doc.content}` : doc.content;
-
-  // Use LangChain to chunk intelligently
-  const textChunks = await textSplitter.createDocuments([textToChunk]);
-
-  // Convert to our Chunk format with metadata
-  const chunks: Chunk[] = textChunks.map((chunk) => ({
-    content: chunk.pageContent,
-    metadata: {
-      source_id: sourceId,
-      title: doc.metadata.title,
-      h1: doc.metadata.h1,
-      h2: doc.metadata.h2,
-      h3: doc.metadata.h3,
-      file_path: doc.relativePath
+  const chunks: Chunk[] = [];
+
+  const visit = async (section: Section, trail: Section[]) => {
+    if (section.content) {
+      chunks.push(...await chunkSection(doc, section, trail, sourceId));
+    }
+
+    for (const child of section.children) {
+      await visit(child, [...trail, child]);
+    }
+  };
+
+  for (const section of doc.sections) {
+    await visit(section, section.level > 0 ? [section] : []);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk the text of one section
+ * @param trail Sections from the top-level one down to this one
+ */
+async function chunkSection(
+  doc: ParsedMarkdown,
+  section: Section,
+  trail: Section[],
+  sourceId: string
+): Promise<Chunk[]> {
+  // Heading breadcrumb, prepended to every chunk for context (and keyword search)
+  const breadcrumb = section.path.length > 0 ? section.path.join(' > ') : doc.metadata.title;
+  const headingAt = (level: number) => trail.find((s) => s.level === level)?.heading;
+
+  const chunks: Chunk[] = [];
+  let group: ChunkUnit[] = [];
+  let groupTokens = 0;
+
+  const flush = () => {
+    if (group.length === 0) {
+      return;
+    }
+
+    const languages = new Set(group.flatMap((unit) => (unit.language ? [unit.language] : [])));
+
+    chunks.push({
+      content: `${breadcrumb}\n\n${group.map((unit) => unit.text).join('\n\n')}`,
+      metadata: {
+        source_id: sourceId,
+        title: doc.metadata.title,
+        h1: headingAt(1),
+        h2: headingAt(2),
+        h3: headingAt(3),
+        section: section.path.join(' > ') || undefined,
+        anchor: section.anchor,
+        // Extracted API sections are not file text, their chunks span the declaration
+        start_line: section.symbol ? section.startLine : section.contentLine + group[0].startLine,
+        end_line: section.symbol ? section.endLine : Math.min(section.contentLine + group[group.length - 1].endLine, section.endLine),
+        languages: Array.from(languages),
+        description: section.metadata?.description ?? doc.metadata.description,
+        tags: section.metadata?.tags ?? doc.metadata.tags,
+        sidebar_label: section.metadata?.sidebar_label ?? doc.metadata.sidebar_label,
+        version: section.metadata?.version ?? doc.metadata.version,
+        deprecated: section.metadata?.deprecated ?? doc.metadata.deprecated,
+        symbol: section.symbol,
+        kind: section.kind,
+        file_path: doc.relativePath
+      }
+    });
+
+    group = [];
+    groupTokens = 0;
+  };
+
+  // Pack consecutive units (e.g., an explanation and its example) up to the chunk size
+  for (const unit of await splitIntoUnits(section.content)) {
+    if (unit.standalone || groupTokens + unit.tokens > maxTokens) {
+      flush();
     }
-  }));
+
+    group.push(unit);
+    groupTokens += unit.tokens;
+
+    if (unit.standalone) {
+      flush();
+    }
+  }
+
+  flush();
 
   return chunks;
 }
+
+/**
+ * Split section content into units, keeping fenced code blocks intact
+ * Prose larger than a chunk goes through the text splitter; code blocks larger than a chunk
+ * are split at line boundaries, each part re-opening and closing the fence.
+ */
+async function splitIntoUnits(content: string): Promise<ChunkUnit[]> {
+  const units: ChunkUnit[] = [];
+
+  for (const block of splitFencedBlocks(content)) {
+    const tokens = countTokens(block.text);
+
+    if (tokens <= maxTokens) {
+      const text = block.type === 'text' ? block.text.trim() : block.text;
+      const leading = block.type === 'text' ? countNewlines(block.text.slice(0, block.text.indexOf(text))) : 0;
+      units.push({
+        text,
+        tokens,
+        startLine: block.startLine + leading,
+        endLine: block.startLine + leading + countNewlines(text),
+        language: block.language,
+        standalone: false
+      });
+    } else if (block.type === 'text') {
+      units.push(...await splitProse(block));
+    } else {
+      units.push(...splitCodeBlock(block));
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Split oversized prose with the text splitter (pieces overlap)
+ */
+async function splitProse(block: MarkdownBlock): Promise<ChunkUnit[]> {
+  const pieces = await textSplitter.splitText(block.text);
+  let searchFrom = 0;
+
+  return pieces.map((piece) => {
+    // Pieces are taken from the block in order, locate them for line numbers
+    const found = block.text.indexOf(piece, searchFrom);
+    const offset = found === -1 ? searchFrom : found;
+    searchFrom = found === -1 ? searchFrom : found + 1;
+
+    const startLine = block.startLine + countNewlines(block.text.slice(0, offset));
+
+    return {
+      text: piece,
+      tokens: countTokens(piece),
+      startLine,
+      endLine: startLine + countNewlines(piece),
+      standalone: true
+    };
+  });
+}
+
+/**
+ * Split an oversized code block at line boundaries, every part is a complete fenced block
+ */
+function splitCodeBlock(block: MarkdownBlock): ChunkUnit[] {
+  const lines = block.text.split('\n');
+  const opening = lines[0];
+  const marker = block.fence!.match(/^(`{3,}|~{3,})/)![1];
+  const closed = lines.length > 1 && lines[lines.length - 1].trim().startsWith(marker);
+  const body = lines.slice(1, closed ? -1 : undefined);
+  const fenceTokens = countTokens(`${opening}\n${marker}`);
+
+  const units: ChunkUnit[] = [];
+  let part: string[] = [];
+  let partTokens = fenceTokens;
+  let partStart = 1;
+
+  const pushPart = () => {
+    if (part.length === 0) {
+      return;
+    }
+
+    const text = `${opening}\n${part.join('\n')}\n${marker}`;
+    units.push({
+      text,
+      tokens: partTokens,
+      startLine: block.startLine + partStart,
+      endLine: block.startLine + partStart + part.length - 1,
+      language: block.language,
+      standalone: false
+    });
+  };
+
+  body.forEach((line, i) => {
+    const lineTokens = countTokens(line) + 1;
+
+    // A single line longer than a chunk stays whole
+    if (part.length > 0 && partTokens + lineTokens > maxTokens) {
+      pushPart();
+      part = [];
+      partTokens = fenceTokens;
+      partStart = i + 1;
+    }
+
+    part.push(line);
+    partTokens += lineTokens;
+  });
+
+  pushPart();
+
+  if (units.length === 0) {
+    return [{ text: block.text, tokens: countTokens(block.text), startLine: block.startLine, endLine: block.endLine, language: block.language, standalone: false }];
+  }
+
+  // The fence lines belong to the first and last parts
+  units[0].startLine = block.startLine;
+  units[units.length - 1].endLine = block.endLine;
+
+  return units;
+}
+
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
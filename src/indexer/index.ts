@@ -1,108 +1,504 @@
 import chalk from 'chalk';
-import { cloneOrPull, findMarkdownFiles, generateRepoId } from '../git/index.js';
-import { parseMarkdownFiles } from '../markdown/parser.js';
+import path from 'path';
+import {
+  cloneOrPull,
+  findFiles,
+  getChangedFiles,
+  getHeadCommit,
+  isIndexablePath
+} from '../git/index.js';
+import type { FileChange } from '../git/index.js';
+import { updateSource } from '../config.js';
+import type { FileSelection, Source } from '../config.js';
+import { parseDocumentFiles } from '../markdown/registry.js';
+import { flattenSections, type ParsedMarkdown } from '../markdown/parser.js';
+import { extractTypeScriptApiFiles, isTypeScriptApiPath } from '../extractors/typescript.js';
+import { extractOpenApiFiles, filterOpenApiFiles, isOpenApiCandidatePath } from '../extractors/openapi.js';
+import { isHtmlPath, parseHtmlFiles } from '../markdown/html.js';
+import { createPathFilter } from '../utils/glob.js';
 import { chunkParsedMarkdown, configureChunker } from './chunker.js';
-import { OllamaEmbedder } from '../embeddings/ollama.js';
-import { addDocuments, deleteTable } from '../storage/lancedb.js';
+import type { Chunk } from './chunker.js';
+import { loadEmbedder, type Embedder, type EmbedProgress } from '../embeddings/index.js';
+import { EmbeddingCache } from '../embeddings/cache.js';
+import {
+  addDocuments,
+  countDocuments,
+  deleteDocuments,
+  deleteGeneration,
+  deleteSourceDocuments,
+  ensureIndexes,
+  readDocuments
+} from '../storage/lancedb.js';
 import type { DocChunk } from '../storage/lancedb.js';
 
+// Chunker configuration (800 tokens per chunk, 100 tokens overlap)
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 100;
+
+export interface IndexResult {
+  chunkCount: number;      // Total chunks stored for the source
+  commit?: string;         // Commit that was indexed (undefined if not a git repository)
+  mode: 'full' | 'incremental' | 'unchanged';
+}
+
+// Steps of a full index, also the scale of the progress of incremental syncs
+const INDEX_STEPS = 6;
+
 /**
- * Index a GitHub repository
- * @param owner Repository owner
- * @param repo Repository name
- * @param branch Branch to index
- * @returns Number of chunks indexed
+ * Progress callback of indexRepo
+ * @param step Current step (e.g., "Generating embeddings")
+ * @param done Completed steps, fractional while embedding
+ * @param total Number of steps
  */
-export async function indexRepo(
-  owner: string,
-  repo: string,
-  branch: string = 'main'
-): Promise<number> {
-  const repoId = generateRepoId(owner, repo, branch);
+export type IndexProgress = (step: string, done: number, total: number) => void;
+
+/**
+ * Index a source (GitHub repository, git remote or local directory)
+ * When the previously indexed commit is still reachable (and neither the embedding model nor the
+ * file selection changed), only the files changed since that commit are re-embedded. A full index
+ * is written as a new generation that replaces the previous one only once it is complete.
+ * Progress is logged to stderr: stdout carries the protocol when the stdio MCP server indexes.
+ * @param source Source to index
+ * @param onProgress Called at each step and while embedding (e.g., to report progress to MCP clients)
+ * @returns Indexing result (chunk count, indexed commit)
+ */
+export async function indexRepo(source: Source, onProgress: IndexProgress = () => {}): Promise<IndexResult> {
+  const { owner, repo, branch } = source;
+  const previousCommit = source.commit;
 
-  console.log(chalk.bold(`\n📚 Indexing ${owner}/${repo}@${branch}`));
+  console.error(chalk.bold(`\n📚 Indexing ${owner}/${repo}@${branch}`));
 
   // 1. Git clone/pull
-  console.log(chalk.dim('\n📦 Step 1/6: Cloning repository...'));
-  const repoPath = await cloneOrPull(owner, repo, branch);
+  console.error(chalk.dim('\n📦 Step 1/6: Cloning repository...'));
+  onProgress('Cloning repository', 0, INDEX_STEPS);
+  const repoPath = await cloneOrPull(source);
+  const commit = await getHeadCommit(repoPath);
+  const embedder = await loadEmbedder();
 
-  // 2. Find markdown files
-  console.log(chalk.dim('\n🔍 Step 2/6: Finding markdown files...'));
-  const mdFiles = await findMarkdownFiles(repoPath);
+  // Chunks embedded with another model (or document prompt) cannot be updated in place
+  const modelChanged = Boolean(source.generation) && source.embeddingModel !== embedder.model;
+  const promptChanged = Boolean(source.generation) && !modelChanged && source.documentPrompt !== embedder.documentPrompt;
+  if (modelChanged) {
+    console.error(chalk.yellow(`  ⚠ Embedding model changed (${source.embeddingModel ?? 'unknown'} → ${embedder.model}), re-indexing fully`));
+  }
+  if (promptChanged) {
+    console.error(chalk.yellow(`  ⚠ Document prompt of ${embedder.model} changed, re-indexing fully`));
+  }
 
-  if (mdFiles.length === 0) {
-    throw new Error(`No markdown files found in ${owner}/${repo}@${branch}`);
+  // Files that started or stopped matching the selection are absent from the diff
+  const selection = fileSelection(source);
+  const selectionChanged = Boolean(source.generation) && !modelChanged && !promptChanged &&
+    JSON.stringify(source.indexedFiles) !== JSON.stringify(selection);
+  if (selectionChanged) {
+    console.error(chalk.yellow('  ⚠ File selection changed (include, exclude, typescriptApi or html), re-indexing fully'));
   }
 
-  console.log(chalk.green(`  ✓ Found ${mdFiles.length} markdown files`));
+  // Local directories may have uncommitted changes, always re-index them fully
+  if (!modelChanged && !promptChanged && !selectionChanged && previousCommit && commit && source.generation && source.kind !== 'local') {
+    const changes = await diffSinceLastIndex(repoPath, previousCommit, commit);
+    const count = await countDocuments(source.generation);
 
-  // 3. Parse markdown
-  console.log(chalk.dim('\n📄 Step 3/6: Parsing markdown...'));
-  const parsedDocs = await parseMarkdownFiles(mdFiles, repoPath);
-  console.log(chalk.green(`  ✓ Parsed ${parsedDocs.length} documents`));
+    if (changes && count > 0) {
+      return indexChanges(source, source.generation, repoPath, changes, commit, embedder, onProgress);
+    }
+  }
 
-  // 4. Chunk documents
-  console.log(chalk.dim('\n✂️  Step 4/6: Chunking documents...'));
+  // 2. Find documentation files
+  console.error(chalk.dim('\n🔍 Step 2/6: Finding documentation files...'));
+  onProgress('Finding documentation files', 1, INDEX_STEPS);
+  const selected = createPathFilter(source.include, source.exclude);
+  const find = (include: (relativePath: string) => boolean) =>
+    findFiles(repoPath, (relativePath) => selected(relativePath) && include(relativePath));
+
+  const docFiles = await find(isIndexablePath);
+  const apiFiles = source.typescriptApi ? await find(isTypeScriptApiPath) : [];
+  const specFiles = await filterOpenApiFiles(await find(isOpenApiCandidatePath));
+  const htmlFiles = source.html ? await find(isHtmlPath) : [];
+
+  if (docFiles.length === 0 && apiFiles.length === 0 && specFiles.length === 0 && htmlFiles.length === 0) {
+    throw new Error(`No documentation files found in ${owner}/${repo}@${branch}`);
+  }
 
-  // Configure chunker (800 tokens per chunk, 100 tokens overlap)
-  const CHUNK_SIZE = 800;
-  const CHUNK_OVERLAP = 100;
+  console.error(chalk.green(`  ✓ Found ${docFiles.length} documentation files`));
+  if (source.typescriptApi) {
+    console.error(chalk.green(`  ✓ Found ${apiFiles.length} TypeScript files`));
+  }
+  if (specFiles.length > 0) {
+    console.error(chalk.green(`  ✓ Found ${specFiles.length} OpenAPI descriptions`));
+  }
+  if (source.html) {
+    console.error(chalk.green(`  ✓ Found ${htmlFiles.length} HTML pages`));
+  }
+
+  // 3. Parse documents
+  console.error(chalk.dim('\n📄 Step 3/6: Parsing documents...'));
+  onProgress('Parsing documents', 2, INDEX_STEPS);
+  const parsedDocs = await parseSourceFiles([...docFiles, ...apiFiles, ...specFiles, ...htmlFiles], repoPath);
+  console.error(chalk.green(`  ✓ Parsed ${parsedDocs.length} documents`));
+
+  const symbols = parsedDocs.flatMap((doc) => flattenSections(doc.sections)).filter((section) => section.symbol);
+  if (symbols.length > 0) {
+    console.error(chalk.green(`  ✓ Extracted ${symbols.length} API symbols`));
+  }
+
+  // 4. Chunk documents
+  console.error(chalk.dim('\n✂️  Step 4/6: Chunking documents...'));
+  onProgress('Chunking documents', 3, INDEX_STEPS);
   configureChunker(CHUNK_SIZE, CHUNK_OVERLAP);
 
-  const chunks = await chunkParsedMarkdown(parsedDocs, repoId);
+  const chunks = await chunkParsedMarkdown(parsedDocs, source.id);
 
   if (chunks.length === 0) {
     throw new Error('No content to index after chunking');
   }
 
-  console.log(chalk.green(`  ✓ Created ${chunks.length} chunks`));
+  console.error(chalk.green(`  ✓ Created ${chunks.length} chunks`));
 
   // 5. Generate embeddings
-  console.log(chalk.dim('\n🧠 Step 5/6: Generating embeddings with Ollama...'));
-  const embedder = new OllamaEmbedder();
+  const cache = new EmbeddingCache(embedder.cacheKey, embedder.dimensions);
+  console.error(chalk.dim(`\n🧠 Step 5/6: Generating embeddings with ${embedder.provider} (${embedder.model})...`));
+  // Write a new (staging) generation, the previous one keeps serving searches
+  const generation = `${source.id}@${Date.now().toString(36)}`;
+  const documents = await embedChunks(source, generation, chunks, embedder, cache, onProgress);
 
-  // Ensure Ollama is available
-  await embedder.ensureAvailable();
+  // 6. Store in LanceDB
+  console.error(chalk.dim('\n💾 Step 6/6: Storing in LanceDB...'));
+  onProgress('Storing in LanceDB', 5, INDEX_STEPS);
 
-  const vectors = await embedder.embed(chunks.map(c => c.content));
+  try {
+    await addDocuments(embedder.model, documents);
+    await ensureIndexes(embedder.model);
+  } catch (error) {
+    await deleteGeneration(generation);
+    throw error;
+  }
 
-  // 6. Store in LanceDB
-  console.log(chalk.dim('\n💾 Step 6/6: Storing in LanceDB...'));
-
-  // Delete old table if exists
-  await deleteTable(repoId);
-
-  // Prepare documents
-  const documents: DocChunk[] = chunks.map((chunk, i) => ({
-    id: `${repoId}-${i}`,
-    repo: `${owner}/${repo}`,
-    branch,
-    path: chunk.metadata.file_path || '',
-    content: chunk.content,
-    vector: vectors[i],
-    metadata: {
-      source_id: chunk.metadata.source_id,
-      title: chunk.metadata.title,
-      h1: chunk.metadata.h1,
-      h2: chunk.metadata.h2,
-      h3: chunk.metadata.h3,
-      file_path: chunk.metadata.file_path,
-      tokens: chunk.content.split(/\s+/).length
-    },
-    indexed_at: new Date().toISOString()
-  }));
-
-  await addDocuments(repoId, documents);
-
-  console.log(chalk.bold.green(`\n✅ Successfully indexed ${chunks.length} chunks!\n`));
-
-  return chunks.length;
+  await activateGeneration(source, generation, embedder, selection);
+
+  printCacheStats(cache);
+  console.error(chalk.bold.green(`\n✅ Successfully indexed ${chunks.length} chunks!\n`));
+
+  return { chunkCount: chunks.length, commit, mode: 'full' };
+}
+
+/**
+ * Parse documentation files and HTML pages, extract the API of TypeScript files and OpenAPI descriptions
+ */
+async function parseSourceFiles(filePaths: string[], repoPath: string): Promise<ParsedMarkdown[]> {
+  const relative = (filePath: string) => path.relative(repoPath, filePath);
+  const documents = filePaths.filter((filePath) => isIndexablePath(relative(filePath)));
+  const specs = filePaths.filter((filePath) => isOpenApiCandidatePath(relative(filePath)));
+  const sources = filePaths.filter((filePath) => isTypeScriptApiPath(relative(filePath)));
+  const pages = filePaths.filter((filePath) => isHtmlPath(relative(filePath)));
+
+  return [
+    ...await parseDocumentFiles(documents, repoPath),
+    ...await extractTypeScriptApiFiles(sources, repoPath),
+    ...await extractOpenApiFiles(specs, repoPath),
+    ...await parseHtmlFiles(pages, repoPath)
+  ];
+}
+
+/**
+ * Diff the previously indexed commit against the new HEAD
+ * @returns Changed files, or undefined when an incremental sync is not possible
+ */
+async function diffSinceLastIndex(
+  repoPath: string,
+  previousCommit: string,
+  commit: string
+): Promise<FileChange[] | undefined> {
+  if (previousCommit === commit) {
+    return [];
+  }
+
+  try {
+    return await getChangedFiles(repoPath, previousCommit, commit);
+  } catch (error: any) {
+    // Happens when the old commit is gone (force push, shallow history)
+    console.error(chalk.yellow(`  ⚠ Cannot diff against ${previousCommit.slice(0, 7)}: ${error.message}`));
+    console.error(chalk.dim('  Falling back to a full re-index'));
+    return undefined;
+  }
+}
+
+/**
+ * Re-index only the files changed since the last indexed commit
+ */
+async function indexChanges(
+  source: Source,
+  generation: string,
+  repoPath: string,
+  changes: FileChange[],
+  commit: string,
+  embedder: Embedder,
+  onProgress: IndexProgress
+): Promise<IndexResult> {
+  // Changed JSON and YAML files may be OpenAPI descriptions, the others give no chunks
+  const selected = createPathFilter(source.include, source.exclude);
+  const isSourceFile = (relativePath: string) => selected(relativePath) && (
+    isIndexablePath(relativePath) ||
+    isOpenApiCandidatePath(relativePath) ||
+    (Boolean(source.typescriptApi) && isTypeScriptApiPath(relativePath)) ||
+    (Boolean(source.html) && isHtmlPath(relativePath))
+  );
+  const relevant = changes.filter(
+    (change) => isSourceFile(change.path) || (change.oldPath && isSourceFile(change.oldPath))
+  );
+
+  if (relevant.length === 0) {
+    console.error(chalk.green('  ✓ No documentation changes since last index'));
+    const count = await countDocuments(generation);
+    return { chunkCount: count, commit, mode: 'unchanged' };
+  }
+
+  // Every touched path loses its chunks, surviving files are re-embedded
+  const staleFiles = new Set<string>();
+  const filesToIndex: string[] = [];
+
+  for (const change of relevant) {
+    staleFiles.add(change.path);
+    if (change.oldPath) {
+      staleFiles.add(change.oldPath);
+    }
+    if (change.status !== 'deleted' && isSourceFile(change.path)) {
+      filesToIndex.push(path.join(repoPath, change.path));
+    }
+  }
+
+  console.error(chalk.dim(`\n🔀 Incremental sync: ${relevant.length} changed documentation files`));
+  for (const status of ['added', 'modified', 'renamed', 'deleted'] as const) {
+    const count = relevant.filter((change) => change.status === status).length;
+    if (count > 0) {
+      console.error(chalk.dim(`  ${status}: ${count}`));
+    }
+  }
+
+  onProgress('Parsing changed documents', 2, INDEX_STEPS);
+  const parsedDocs = await parseSourceFiles(filesToIndex, repoPath);
+
+  configureChunker(CHUNK_SIZE, CHUNK_OVERLAP);
+  const chunks = await chunkParsedMarkdown(parsedDocs, source.id);
+
+  const cache = new EmbeddingCache(embedder.cacheKey, embedder.dimensions);
+
+  let documents: DocChunk[] = [];
+  if (chunks.length > 0) {
+    console.error(chalk.dim(`\n🧠 Generating embeddings for ${chunks.length} chunks...`));
+    documents = await embedChunks(source, generation, chunks, embedder, cache, onProgress);
+  }
+
+  // Add replacements before deleting stale chunks, so a failure never leaves files missing
+  console.error(chalk.dim('\n💾 Updating LanceDB...'));
+  onProgress('Updating LanceDB', 5, INDEX_STEPS);
+  await addDocuments(embedder.model, documents);
+  await deleteDocuments(generation, Array.from(staleFiles), documents[0]?.indexed_at);
+  await ensureIndexes(embedder.model);
+
+  const count = await countDocuments(generation);
+
+  printCacheStats(cache);
+  console.error(chalk.bold.green(`\n✅ Re-indexed ${filesToIndex.length} files (${chunks.length} chunks)!\n`));
+
+  return { chunkCount: count, commit, mode: 'incremental' };
+}
+
+/**
+ * Embed chunks (through the embedding cache) and turn them into LanceDB documents
+ */
+async function embedChunks(
+  source: Source,
+  generation: string,
+  chunks: Chunk[],
+  embedder: Embedder,
+  cache: EmbeddingCache,
+  onProgress: IndexProgress
+): Promise<DocChunk[]> {
+  const log = logProgress();
+  onProgress('Generating embeddings', 4, INDEX_STEPS);
+
+  const vectors = await embedTexts(chunks.map(c => c.content), embedder, cache, (done, total) => {
+    log(done, total);
+    onProgress(`Generating embeddings (${done}/${total} chunks)`, 4 + done / total, INDEX_STEPS);
+  });
+
+  // Chunk ids are stable per file so that files can be replaced independently
+  const chunkIndexes = new Map<string, number>();
+  const indexedAt = new Date().toISOString();
+
+  return chunks.map((chunk, i) => {
+    const filePath = chunk.metadata.file_path || '';
+    const chunkIndex = chunkIndexes.get(filePath) ?? 0;
+    chunkIndexes.set(filePath, chunkIndex + 1);
+
+    return {
+      id: `${chunk.metadata.source_id}:${filePath}:${chunkIndex}`,
+      source_id: source.id,
+      generation,
+      repo: `${source.owner}/${source.repo}`,
+      branch: source.branch,
+      path: filePath,
+      content: chunk.content,
+      vector: vectors[i],
+      metadata: {
+        source_id: chunk.metadata.source_id,
+        title: chunk.metadata.title,
+        h1: chunk.metadata.h1,
+        h2: chunk.metadata.h2,
+        h3: chunk.metadata.h3,
+        section: chunk.metadata.section,
+        anchor: chunk.metadata.anchor,
+        start_line: chunk.metadata.start_line,
+        end_line: chunk.metadata.end_line,
+        languages: chunk.metadata.languages,
+        description: chunk.metadata.description,
+        tags: chunk.metadata.tags,
+        sidebar_label: chunk.metadata.sidebar_label,
+        version: chunk.metadata.version,
+        deprecated: chunk.metadata.deprecated ?? false,
+        symbol: chunk.metadata.symbol,
+        kind: chunk.metadata.kind,
+        file_path: chunk.metadata.file_path,
+        tokens: chunk.content.split(/\s+/).length
+      },
+      indexed_at: indexedAt
+    };
+  });
+}
+
+/**
+ * Re-embed the active generation of a source with another model (or document prompt)
+ * Stored chunks are reused as is (no clone or parse), only their vectors change.
+ * The new generation lives in the chunks table of the new model and replaces the old one once complete.
+ * @returns Number of re-embedded chunks
+ */
+export async function reembedSource(
+  source: Source,
+  embedder: Embedder,
+  cache: EmbeddingCache,
+  onProgress?: EmbedProgress
+): Promise<number> {
+  if (!source.generation) {
+    return 0;
+  }
+
+  const previous = await readDocuments(source.generation);
+
+  if (previous.length === 0) {
+    return 0;
+  }
+
+  const vectors = await embedTexts(previous.map(doc => doc.content), embedder, cache, onProgress);
+
+  const generation = `${source.id}@${Date.now().toString(36)}`;
+  const documents = previous.map((doc, i) => ({ ...doc, generation, vector: vectors[i] }));
+
+  try {
+    await addDocuments(embedder.model, documents);
+    await ensureIndexes(embedder.model);
+  } catch (error) {
+    await deleteGeneration(generation);
+    throw error;
+  }
+
+  await activateGeneration(source, generation, embedder);
+
+  return documents.length;
+}
+
+/**
+ * Swap: point the source to a complete generation, then drop its other generations
+ * @param selection File selection the generation was built from (unchanged when re-embedding)
+ */
+async function activateGeneration(
+  source: Source,
+  generation: string,
+  embedder: Embedder,
+  selection?: FileSelection
+): Promise<void> {
+  await updateSource(source.id, {
+    generation,
+    embeddingModel: embedder.model,
+    documentPrompt: embedder.documentPrompt,
+    ...(selection ? { indexedFiles: selection } : {})
+  });
+  await deleteSourceDocuments(source.id, generation);
+}
+
+/**
+ * File selection of a source, with defaults filled in so that it compares as JSON
+ */
+function fileSelection(source: Source): FileSelection {
+  return {
+    typescriptApi: Boolean(source.typescriptApi),
+    html: Boolean(source.html),
+    include: source.include ?? [],
+    exclude: source.exclude ?? []
+  };
+}
+
+/**
+ * Embed texts through the cache, the provider only sees cache misses
+ */
+async function embedTexts(
+  texts: string[],
+  embedder: Embedder,
+  cache: EmbeddingCache,
+  onProgress?: EmbedProgress
+): Promise<number[][]> {
+  return cache.embed(texts, async (missing) => {
+    // Ensure the embedding provider is available (only needed for cache misses)
+    await embedder.ensureAvailable();
+    const embedded = await embedder.embedDocuments(missing, onProgress);
+    checkDimensions(embedder, embedded);
+    return embedded;
+  });
+}
+
+/**
+ * Print embedding progress with throughput
+ */
+function logProgress(): EmbedProgress {
+  const start = Date.now();
+
+  return (done, total) => {
+    const seconds = (Date.now() - start) / 1000;
+    const rate = seconds > 0 ? `${(done / seconds).toFixed(1)} chunks/s` : '-';
+    console.error(chalk.dim(`  Embedded ${done}/${total} chunks (${rate})`));
+  };
+}
+
+/**
+ * Catch a model whose vectors don't match embeddings.dimensions before they reach the table
+ */
+function checkDimensions(embedder: Embedder, vectors: number[][]): void {
+  const actual = vectors[0]?.length;
+
+  if (actual !== undefined && actual !== embedder.dimensions) {
+    throw new Error(
+      `${embedder.model} returned ${actual}-dimensional vectors but embeddings.dimensions is ${embedder.dimensions} in feedd.config.json`
+    );
+  }
+}
+
+/**
+ * Display embedding cache hit/miss counts
+ */
+export function printCacheStats(cache: EmbeddingCache): void {
+  const { hits, misses } = cache.stats;
+  const total = hits + misses;
+
+  if (total === 0) {
+    return;
+  }
+
+  const rate = ((hits / total) * 100).toFixed(1);
+  console.error(chalk.dim(`\n♻️  Embedding cache: ${hits} hits, ${misses} misses (${rate}% hit rate)`));
 }
 
 /**
  * Delete a repository index
  */
-export async function removeRepo(owner: string, repo: string, branch: string): Promise<void> {
-  const repoId = generateRepoId(owner, repo, branch);
-  await deleteTable(repoId);
+export async function removeRepo(source: Source): Promise<void> {
+  await deleteSourceDocuments(source.id);
 }
@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import { createParsedDocument, type ParsedMarkdown } from './parser.js';
+
+/**
+ * Parse an AsciiDoc file (Asciidoctor, Antora) into the markdown document structure
+ * @param filePath Absolute path to the .adoc file
+ * @param repoPath Path to the repository root
+ */
+export async function parseAsciidocFile(filePath: string, repoPath: string): Promise<ParsedMarkdown> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const { markdown, attributes } = asciidocToMarkdown(source);
+
+  return createParsedDocument(filePath, repoPath, markdown, attributes);
+}
+
+// Admonition labels ("NOTE: text", "[WARNING]" blocks)
+const ADMONITIONS: Record<string, string> = {
+  NOTE: 'Note',
+  TIP: 'Tip',
+  IMPORTANT: 'Important',
+  WARNING: 'Warning',
+  CAUTION: 'Caution'
+};
+
+// Delimiters of verbatim blocks, rendered as fenced code blocks
+const VERBATIM_DELIMITER = /^(-{4,}|\.{4,})\s*$/;
+
+// Delimiters of blocks whose content is not shown (comments, raw passthrough)
+const HIDDEN_DELIMITER = /^(\/{4,}|\+{4,})\s*$/;
+
+// Delimiters of compound blocks (example, sidebar, quote, open, table), their content is kept
+const COMPOUND_DELIMITER = /^(={4,}|\*{4,}|_{4,}|--|\|={3,})\s*$/;
+
+// Preprocessor and block macros without readable content
+const SKIPPED_MACRO = /^(include|image|video|audio|toc|ifdef|ifndef|ifeval|endif)::/;
+
+/**
+ * Convert AsciiDoc to markdown, line for line
+ * Section titles ("== Usage") become ATX headings, listing and literal blocks become
+ * fenced code blocks (with the language of their [source,lang] attribute), admonitions keep
+ * a bold label and attribute entries (":description: ...") are returned as metadata.
+ */
+export function asciidocToMarkdown(source: string): { markdown: string; attributes: Record<string, string> } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const attributes: Record<string, string> = {};
+  const out: string[] = [];
+  let blockAttribute: string | undefined;
+  let verbatim: string | undefined;
+  let hidden: string | undefined;
+  let inHeader = false;
+
+  // The document title is the first line that is not a comment
+  const titleLine = lines.findIndex((line) => line.trim() && !line.startsWith('//'));
+
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+
+    if (hidden) {
+      out.push('');
+      if (trimmed === hidden) {
+        hidden = undefined;
+      }
+      return;
+    }
+
+    if (verbatim) {
+      if (trimmed === verbatim) {
+        out.push('```');
+        verbatim = undefined;
+      } else {
+        out.push(line);
+      }
+      return;
+    }
+
+    // Header: document title, then author and revision lines up to the first blank line
+    if (inHeader && trimmed && !trimmed.startsWith(':') && !trimmed.startsWith('//')) {
+      out.push('');
+      return;
+    }
+    inHeader = false;
+
+    // Paragraph of a [source] block without delimiters, closed by the next blank line
+    if (blockAttribute?.startsWith('```') && !trimmed) {
+      out.push('```');
+      blockAttribute = undefined;
+      return;
+    }
+    if (blockAttribute?.startsWith('```')) {
+      out.push(line);
+      return;
+    }
+
+    const attribute = line.match(/^:(!?[\w-]+!?):\s*(.*)$/);
+    if (attribute) {
+      const name = attribute[1].replace(/^page-/, '').toLowerCase();
+      attributes[name] ??= attribute[2].trim();
+      out.push('');
+      return;
+    }
+
+    const heading = line.match(/^(={1,6})\s+(.+)$/);
+    if (heading) {
+      out.push(`${'#'.repeat(heading[1].length)} ${convertInline(heading[2].trim(), attributes)}`);
+      inHeader = heading[1].length === 1 && i === titleLine;
+      return;
+    }
+
+    if (HIDDEN_DELIMITER.test(trimmed)) {
+      hidden = trimmed;
+      out.push('');
+      return;
+    }
+
+    if (VERBATIM_DELIMITER.test(trimmed)) {
+      verbatim = trimmed;
+      out.push(`\`\`\`${sourceLanguage(blockAttribute) ?? ''}`);
+      blockAttribute = undefined;
+      return;
+    }
+
+    if (COMPOUND_DELIMITER.test(trimmed)) {
+      const label = blockAttribute && ADMONITIONS[blockAttribute.split(',')[0]];
+      out.push(label ? `**${label}:**` : '');
+      blockAttribute = undefined;
+      return;
+    }
+
+    // Block attributes and anchors ([source,java], [NOTE], [[install]], [#install])
+    const blockAttributes = trimmed.match(/^\[\[?([^\]]*)\]\]?$/);
+    if (blockAttributes) {
+      blockAttribute = blockAttributes[1].trim();
+      const next = lines[i + 1]?.trim() ?? '';
+      const language = sourceLanguage(blockAttribute);
+
+      if (language !== undefined && next && !VERBATIM_DELIMITER.test(next)) {
+        // Listing paragraph: the attribute line opens the fence
+        out.push(`\`\`\`${language}`);
+        blockAttribute = '```';
+      } else if (ADMONITIONS[blockAttribute] && next && !COMPOUND_DELIMITER.test(next)) {
+        out.push(`**${ADMONITIONS[blockAttribute]}:**`);
+        blockAttribute = undefined;
+      } else {
+        out.push('');
+      }
+      return;
+    }
+
+    if (trimmed.startsWith('//') || SKIPPED_MACRO.test(trimmed)) {
+      out.push('');
+      return;
+    }
+
+    // Block title (".Example") leaves the pending block attribute in place
+    const title = line.match(/^\.([^\s.].*)$/);
+    if (title) {
+      out.push(`**${convertInline(title[1].trim(), attributes)}**`);
+      return;
+    }
+
+    const admonition = line.match(/^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+(.*)$/);
+    if (admonition) {
+      out.push(`**${ADMONITIONS[admonition[1]]}:** ${convertInline(admonition[2], attributes)}`);
+      return;
+    }
+
+    if (!trimmed) {
+      blockAttribute = undefined;
+    }
+
+    out.push(convertInline(line, attributes));
+  });
+
+  // Unclosed blocks run to the end of the document
+  if (verbatim || blockAttribute === '```') {
+    out[out.length - 1] += '\n```';
+  }
+
+  return { markdown: out.join('\n'), attributes };
+}
+
+/**
+ * Language of a [source,lang] (or [,lang]) block attribute
+ * @returns The language ('' when not given), or undefined if the block is not a source block
+ */
+function sourceLanguage(blockAttribute: string | undefined): string | undefined {
+  const [style, language] = (blockAttribute ?? '').split(',').map((part) => part.trim());
+
+  if (style !== 'source' && !(style === '' && language)) {
+    return undefined;
+  }
+
+  return language?.split(/\s/)[0] ?? '';
+}
+
+/**
+ * Convert inline markup: cross references, links, UI macros, passthroughs and attribute references
+ */
+function convertInline(text: string, attributes: Record<string, string>): string {
+  return text
+    .replace(/<<([^,>]+),\s*([^>]+)>>/g, '$2')
+    .replace(/<<([^>]+)>>/g, '$1')
+    .replace(/xref:[^[\s]*\[([^\]]*)\]/g, '$1')
+    .replace(/link:([^[\s]+)\[([^\]]*)\]/g, (_match, url: string, label: string) => `[${label || url}](${url})`)
+    .replace(/(https?:\/\/[^[\s]+)\[([^\]]+)\]/g, '[$2]($1)')
+    .replace(/kbd:\[([^\]]*)\]/g, '`$1`')
+    .replace(/(?:btn|pass):\[([^\]]*)\]/g, '$1')
+    .replace(/`\+(.+?)\+`/g, '`$1`')
+    .replace(/\{([\w-]+)\}/g, (match, name: string) => attributes[name.toLowerCase()] ?? match);
+}
@@ -0,0 +1,570 @@
+import fs from 'fs/promises';
+import { createParsedDocument, type ParsedMarkdown } from './parser.js';
+
+// Generated pages without content of their own (indexes, search, frames)
+const SKIPPED_PAGES = /^(genindex|py-modindex|modindex|search|404|index-all|allclasses(-index|-frame|-noframe)?|allpackages-index|overview-(tree|frame)|package-(tree|frame|use)|deprecated-list|constant-values|serialized-form|help-doc)\.html?$/;
+
+// Directories of site assets, highlighted sources and copies of the source files
+const SKIPPED_DIRS = new Set(['_static', '_sources', '_modules', '_images', '_downloads', 'assets', 'search', 'class-use', 'script-dir', 'legal']);
+
+/**
+ * Check if a file (relative to the site root) is a page of a built HTML documentation site
+ * Index, search and frame pages and asset directories are skipped.
+ */
+export function isHtmlPath(relativePath: string): boolean {
+  const segments = relativePath.split(/[\\/]/);
+  const fileName = (segments.pop() || '').toLowerCase();
+
+  return /\.html?$/.test(fileName) &&
+    !SKIPPED_PAGES.test(fileName) &&
+    !segments.some((segment) => SKIPPED_DIRS.has(segment));
+}
+
+/**
+ * Parse HTML pages into the markdown document structure
+ */
+export async function parseHtmlFiles(filePaths: string[], repoPath: string): Promise<ParsedMarkdown[]> {
+  return Promise.all(filePaths.map((filePath) => parseHtmlFile(filePath, repoPath)));
+}
+
+/**
+ * Parse a page of a built documentation site (Sphinx, mkdocs, TypeDoc, Javadoc...)
+ * @param filePath Absolute path to the .html file
+ * @param repoPath Path to the site root
+ */
+export async function parseHtmlFile(filePath: string, repoPath: string): Promise<ParsedMarkdown> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const { markdown, metadata } = htmlToMarkdown(source);
+
+  return createParsedDocument(filePath, repoPath, markdown, metadata);
+}
+
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+  line: number;         // 1-based line of the start tag
+}
+
+interface HtmlText {
+  text: string;         // Decoded text
+  line: number;         // 1-based line of the first non-blank character
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+// Rendered block (heading, paragraph, code block, list, table) and the page line it starts at
+interface Block {
+  line: number;
+  lines: string[];
+}
+
+// Elements without end tag
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Elements closed by the start of a sibling (e.g., <li> without </li>), up to the enclosing list or table
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  thead: ['thead', 'tbody'],
+  tbody: ['thead', 'tbody'],
+  option: ['option']
+};
+const IMPLIED_END_SCOPE = new Set(['ul', 'ol', 'dl', 'table', 'select']);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr',
+  'html', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'tr', 'ul'
+]);
+
+// Elements that are not part of the content (navigation, scripts, forms, icons)
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'nav', 'form', 'button', 'input', 'select',
+  'textarea', 'iframe', 'object', 'footer', 'img', 'picture', 'video', 'audio'
+]);
+
+// Classes of boilerplate blocks and permalink anchors of documentation generators
+const BOILERPLATE_CLASS = /^(headerlink|hash-link|tsd-anchor-icon|tsd-breadcrumb|tsd-page-toolbar|breadcrumbs?|wy-breadcrumbs|sphinxsidebar|related|rst-footer-buttons|linenos|md-source-file|md-content__button|theme-edit-this-page|pagination-nav|sub-nav|subNav|top-nav|bottom-nav|copybtn|sr-only|visually-hidden)$/;
+
+// Containers of the page content in order of preference (the whole page when none is found)
+const CONTENT_SELECTORS: Array<(element: HtmlElement) => boolean> = [
+  (element) => element.attributes.role === 'main',           // Sphinx, mkdocs, Javadoc
+  (element) => element.tag === 'article',                    // mkdocs-material, Docusaurus, furo
+  (element) => hasClass(element, 'col-content'),             // TypeDoc
+  (element) => hasClass(element, 'contentContainer'),        // Javadoc 8
+  (element) => element.tag === 'main'
+];
+
+// Page chrome, only skipped when no content container was found
+const PAGE_CHROME = new Set(['header', 'aside']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ensp: ' ', emsp: ' ', thinsp: ' ', shy: '',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  larr: '←', rarr: '→', uarr: '↑', darr: '↓', harr: '↔', rArr: '⇒', copy: '©', reg: '®', trade: '™',
+  para: '¶', sect: '§', middot: '·', bull: '•', times: '×', divide: '÷', deg: '°', plusmn: '±', le: '≤', ge: '≥', ne: '≠'
+};
+
+/**
+ * Convert the main content of an HTML page to markdown
+ * The content container (role="main", <article>, <main>...) is converted without navigation,
+ * permalinks and scripts: headings become ATX headings, <pre> blocks fenced code blocks (with
+ * the language of their language-x or highlight-x class) and tables pipe tables. Every block
+ * is placed at (or after) the line of its start tag, so that line numbers roughly refer to the page.
+ * @returns The markdown, and the title, description and keywords of the page as metadata
+ */
+export function htmlToMarkdown(source: string): { markdown: string; metadata: Record<string, string> } {
+  const root = parseHtml(source);
+  const metadata: Record<string, string> = {};
+
+  for (const meta of findAll(root, (element) => element.tag === 'meta')) {
+    const name = meta.attributes.name?.toLowerCase();
+    if ((name === 'description' || name === 'keywords') && meta.attributes.content) {
+      metadata[name] ??= meta.attributes.content.trim();
+    }
+  }
+
+  let containers: HtmlElement[] = [];
+  for (const selector of CONTENT_SELECTORS) {
+    containers = findAll(root, selector);
+    if (containers.length > 0) {
+      break;
+    }
+  }
+
+  const blocks: Block[] = [];
+  if (containers.length > 0) {
+    containers.forEach((container) => renderBlocks(container.children, blocks));
+  } else {
+    renderBlocks(root.children, blocks, true);
+  }
+
+  const out: string[] = [];
+  for (const block of blocks) {
+    while (out.length < block.line - 1) {
+      out.push('');
+    }
+    if (out.length > 0 && out[out.length - 1] !== '') {
+      out.push('');
+    }
+    out.push(...block.lines);
+  }
+
+  // The <title> usually ends with the site name, it is only used for pages without h1
+  const title = findAll(root, (element) => element.tag === 'title')[0];
+  if (title && !blocks.some((block) => block.lines[0].startsWith('# '))) {
+    metadata.title = textContent(title).replace(/\s+/g, ' ').trim();
+  }
+
+  return { markdown: out.join('\n'), metadata };
+}
+
+/**
+ * Build the element tree of a page, recovering from unclosed and stray tags like browsers do
+ */
+function parseHtml(source: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attributes: {}, children: [], line: 1 };
+  const stack: HtmlElement[] = [root];
+  const token = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+  const lowercase = source.toLowerCase();
+  let line = 1;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  const advance = (index: number) => {
+    for (let i = position; i < index; i++) {
+      if (source.charCodeAt(i) === 10) {
+        line++;
+      }
+    }
+    position = index;
+  };
+
+  while ((match = token.exec(source)) !== null) {
+    advance(match.index);
+    const current = stack[stack.length - 1];
+    const [text, closing, name, attributeText] = match;
+
+    if (!name) {
+      if (!text.startsWith('<!') && !text.startsWith('<?')) {
+        const leading = text.match(/^\s*/)![0];
+        current.children.push({ text: decodeEntities(text), line: line + (leading.match(/\n/g)?.length ?? 0) });
+      }
+      continue;
+    }
+
+    const tag = name.toLowerCase();
+
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    closeImpliedElements(stack, tag);
+
+    const element: HtmlElement = {
+      tag,
+      attributes: parseAttributes(attributeText),
+      children: [],
+      parent: stack[stack.length - 1],
+      line
+    };
+    element.parent!.children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      // Skip to the end tag, the content is never rendered
+      const end = lowercase.indexOf(`</${tag}`, token.lastIndex);
+      token.lastIndex = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !attributeText.trim().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function closeImpliedElements(stack: HtmlElement[], tag: string): void {
+  // A block starting inside a paragraph closes it
+  if (BLOCK_ELEMENTS.has(tag) && stack[stack.length - 1].tag === 'p') {
+    stack.pop();
+  }
+
+  const closed = IMPLIED_END[tag];
+  if (!closed) {
+    return;
+  }
+
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (closed.includes(stack[i].tag)) {
+      stack.length = i;
+      return;
+    }
+    if (IMPLIED_END_SCOPE.has(stack[i].tag)) {
+      return;
+    }
+  }
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attribute = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attribute.exec(text)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Render block-level nodes, runs of inline nodes between them become paragraphs
+ */
+function renderBlocks(nodes: HtmlNode[], blocks: Block[], page = false): void {
+  let inline: HtmlNode[] = [];
+
+  const flush = () => {
+    const lines = inlineLines(inline);
+    if (lines.length > 0) {
+      blocks.push({ line: inline.find((node) => isElement(node) || node.text.trim())!.line, lines });
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (!isElement(node) || !BLOCK_ELEMENTS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+
+    flush();
+    if (!isSkipped(node) && !(page && PAGE_CHROME.has(node.tag))) {
+      renderBlock(node, blocks, page);
+    }
+  }
+
+  flush();
+}
+
+function renderBlock(element: HtmlElement, blocks: Block[], page: boolean): void {
+  const { tag, line } = element;
+  const heading = tag.match(/^h([1-6])$/);
+
+  if (heading) {
+    const text = renderInline(element.children).replace(/\s+/g, ' ').trim();
+    if (text) {
+      blocks.push({ line, lines: [`${'#'.repeat(Number(heading[1]))} ${text}`] });
+    }
+    return;
+  }
+
+  if (tag === 'p' && hasClass(element, 'admonition-title')) {
+    const text = renderInline(element.children).replace(/\s+/g, ' ').trim();
+    if (text) {
+      blocks.push({ line, lines: [`**${text}:**`] });
+    }
+    return;
+  }
+
+  if (tag === 'pre') {
+    const code = textContent(element).replace(/^\n/, '').replace(/\s+$/, '');
+    if (code.trim()) {
+      const language = codeLanguage(element);
+      const fence = code.includes('```') ? '~~~' : '```';
+      blocks.push({ line, lines: [`${fence}${language}`, ...code.split('\n'), fence] });
+    }
+    return;
+  }
+
+  if (tag === 'ul' || tag === 'ol') {
+    const lines = renderList(element);
+    if (lines.length > 0) {
+      blocks.push({ line, lines });
+    }
+    return;
+  }
+
+  // Tables of highlighted code with line numbers are code blocks
+  if (tag === 'table' && !hasClass(element, 'highlighttable')) {
+    const lines = renderTable(element);
+    if (lines.length > 0) {
+      blocks.push({ line, lines });
+    }
+    return;
+  }
+
+  if (tag === 'blockquote') {
+    const lines = joinBlocks(renderChildren(element), true);
+    if (lines.length > 0) {
+      blocks.push({ line, lines: lines.map((text) => (text ? `> ${text}` : '>')) });
+    }
+    return;
+  }
+
+  if (tag === 'dt') {
+    const text = renderInline(element.children).replace(/\s+/g, ' ').trim();
+    if (text) {
+      blocks.push({ line, lines: [`**${text}**`] });
+    }
+    return;
+  }
+
+  if (tag === 'hr') {
+    return;
+  }
+
+  renderBlocks(element.children, blocks, page);
+}
+
+function renderChildren(element: HtmlElement): Block[] {
+  const blocks: Block[] = [];
+  renderBlocks(element.children, blocks);
+  return blocks;
+}
+
+/**
+ * Lines of rendered blocks, separated by a blank line unless tight
+ */
+function joinBlocks(blocks: Block[], separated: boolean): string[] {
+  return blocks.flatMap((block, i) => (separated && i > 0 ? ['', ...block.lines] : block.lines));
+}
+
+function renderList(list: HtmlElement): string[] {
+  const lines: string[] = [];
+  let number = Number(list.attributes.start) || 1;
+
+  for (const item of list.children) {
+    if (!isElement(item) || item.tag !== 'li' || isSkipped(item)) {
+      continue;
+    }
+
+    const marker = list.tag === 'ol' ? `${number++}. ` : '- ';
+    const content = joinBlocks(renderChildren(item), false);
+    if (content.length === 0) {
+      continue;
+    }
+
+    lines.push(`${marker}${content[0]}`, ...content.slice(1).map((text) => (text ? `${' '.repeat(marker.length)}${text}` : '')));
+  }
+
+  return lines;
+}
+
+/**
+ * Render a table as a pipe table, its first row is the header
+ */
+function renderTable(table: HtmlElement): string[] {
+  const rows = findAll(table, (element) => element.tag === 'tr')
+    .map((row) =>
+      row.children
+        .filter((cell): cell is HtmlElement => isElement(cell) && (cell.tag === 'td' || cell.tag === 'th'))
+        .map((cell) => renderInline(cell.children).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.length > 0);
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const caption = findAll(table, (element) => element.tag === 'caption')[0];
+  const title = caption ? renderInline(caption.children).replace(/\s+/g, ' ').trim() : '';
+
+  return [
+    ...(title ? [`**${title}**`, ''] : []),
+    line(rows[0]),
+    `|${' --- |'.repeat(width)}`,
+    ...rows.slice(1).map(line)
+  ];
+}
+
+/**
+ * Lines of a paragraph (line breaks come from <br>), markdown syntax at line starts is escaped
+ */
+function inlineLines(nodes: HtmlNode[]): string[] {
+  return renderInline(nodes)
+    .split('\n')
+    .map((text) => text.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .map((text) => text.replace(/^(#{1,6}\s|```|~~~|[-*+]\s|>)/, '\\$1'));
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes.map((node) => {
+    if (!isElement(node)) {
+      return node.text.replace(/\s+/g, ' ');
+    }
+    if (isSkipped(node)) {
+      return '';
+    }
+
+    const text = renderInline(node.children);
+    switch (node.tag) {
+      case 'br':
+        return '\n';
+      case 'code':
+      case 'kbd':
+      case 'samp':
+      case 'tt': {
+        const code = textContent(node).replace(/\s+/g, ' ').trim();
+        return code ? (code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``) : '';
+      }
+      case 'strong':
+      case 'b':
+        return emphasize(text, '**');
+      case 'em':
+      case 'i':
+        return emphasize(text, '_');
+      case 'a': {
+        const href = node.attributes.href;
+        const label = text.replace(/\s+/g, ' ').trim();
+        if (!label || !href || href.startsWith('#') || href.startsWith('javascript:')) {
+          return text;
+        }
+        return `[${label}](${href.replace(/ /g, '%20')})`;
+      }
+      default:
+        return BLOCK_ELEMENTS.has(node.tag) ? ` ${text} ` : text;
+    }
+  }).join('');
+}
+
+function emphasize(text: string, marker: string): string {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+/**
+ * Text of an element as written (code blocks), without skipped elements such as line numbers
+ */
+function textContent(element: HtmlElement): string {
+  return element.children.map((child) => {
+    if (!isElement(child)) {
+      return child.text;
+    }
+    if (child.tag === 'br') {
+      return '\n';
+    }
+    return isSkipped(child) ? '' : textContent(child);
+  }).join('');
+}
+
+/**
+ * Language of a code block, from the classes of the <pre>, its <code> or their wrappers
+ * (language-ts for Prism and highlight.js, highlight-python for Sphinx)
+ */
+function codeLanguage(pre: HtmlElement): string {
+  const code = pre.children.find((child): child is HtmlElement => isElement(child) && child.tag === 'code');
+  const candidates = [pre, code, pre.parent, pre.parent?.parent];
+
+  for (const element of candidates) {
+    const language = element?.attributes['data-lang'] ??
+      classList(element).map((name) => name.match(/^(?:language|lang|highlight)-([\w+#.-]+)$/)?.[1]).find(Boolean);
+    if (language) {
+      return language === 'default' || language === 'none' ? '' : language;
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Find the outermost elements matching a predicate (their descendants are not searched)
+ */
+function findAll(element: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  return element.children.flatMap((child) => {
+    if (!isElement(child)) {
+      return [];
+    }
+    return predicate(child) ? [child] : findAll(child, predicate);
+  });
+}
+
+function isSkipped(element: HtmlElement): boolean {
+  const { attributes } = element;
+  return SKIPPED_ELEMENTS.has(element.tag) ||
+    attributes.role === 'navigation' ||
+    attributes.role === 'search' ||
+    attributes['aria-hidden'] === 'true' ||
+    'hidden' in attributes ||
+    classList(element).some((name) => BOILERPLATE_CLASS.test(name));
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return 'tag' in node;
+}
+
+function classList(element: HtmlElement | undefined): string[] {
+  return element?.attributes.class?.split(/\s+/).filter(Boolean) ?? [];
+}
+
+function hasClass(element: HtmlElement, name: string): boolean {
+  return classList(element).includes(name);
+}
@@ -0,0 +1,207 @@
+import { splitFencedBlocks } from './parser.js';
+
+/**
+ * Check whether a file is MDX (markdown with JSX and ES modules)
+ */
+export function isMdxPath(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.mdx');
+}
+
+// Components wrapping one tab of a tab group, rendered as their label
+const TAB_COMPONENTS = new Set(['TabItem', 'Tab', 'Tabs.Tab', 'Tabs.Item']);
+
+// Components wrapping a note, rendered as a "**Warning:**" prefix
+const CALLOUT_COMPONENTS = new Set([
+  'Callout', 'Admonition', 'Aside', 'Note', 'Tip', 'Info', 'Warning', 'Caution', 'Danger', 'Important'
+]);
+
+/**
+ * Turn MDX into plain markdown
+ * import/export statements, JSX comments and component tags are removed while their
+ * text children and code blocks are kept; tabs and callouts leave a readable label.
+ * Removed text is replaced by as many line breaks, so line numbers still refer to the file.
+ * @param mdx MDX without frontmatter
+ */
+export function stripMdx(mdx: string): string {
+  const lines = stripEsm(mdx.split('\n'));
+
+  // Code blocks are kept verbatim
+  for (const block of splitFencedBlocks(lines.join('\n'))) {
+    if (block.type === 'text') {
+      const text = stripJsx(lines.slice(block.startLine, block.endLine + 1).join('\n'));
+      lines.splice(block.startLine, block.endLine - block.startLine + 1, ...text.split('\n'));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Blank out ES module statements: paragraphs starting with import or export, like MDX parses them
+ */
+function stripEsm(lines: string[]): string[] {
+  let fence: string | undefined;
+  let inStatement = false;
+
+  return lines.map((line, i) => {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+
+    if (marker && !inStatement) {
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+    }
+
+    if (fence || marker) {
+      return line;
+    }
+
+    const paragraphStart = i === 0 || lines[i - 1].trim() === '';
+    if (paragraphStart && /^(import|export)\s/.test(line)) {
+      inStatement = true;
+    } else if (line.trim() === '') {
+      inStatement = false;
+    }
+
+    return inStatement ? '' : line;
+  });
+}
+
+/**
+ * Remove JSX comments and component tags from prose, keeping inline code spans as they are
+ */
+function stripJsx(text: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Inline code span, e.g. `<Tabs>`
+    if (char === '`') {
+      const ticks = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        result += text.slice(i, end + ticks.length);
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    // {/* comment */}
+    if (text.startsWith('{/*', i)) {
+      const end = text.indexOf('*/}', i);
+      if (end !== -1) {
+        result += lineBreaks(text.slice(i, end + 3));
+        i = end + 3;
+        continue;
+      }
+    }
+
+    // Component tag (capitalized or member name) or fragment
+    if (char === '<' && /^<\/?(?:[A-Z]|>)/.test(text.slice(i, i + 3))) {
+      const tag = readTag(text, i);
+      if (tag) {
+        result += renderTag(tag) + lineBreaks(tag.source);
+        i += tag.source.length;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+interface JsxTag {
+  source: string;
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: Record<string, string>;
+}
+
+/**
+ * Read a JSX tag starting at an index, attributes may span lines and hold expressions
+ * @returns The tag, or undefined if it is not closed
+ */
+function readTag(text: string, start: number): JsxTag | undefined {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (char === '>' && depth === 0) {
+      const source = text.slice(start, i + 1);
+      const match = source.match(/^<(\/?)\s*([\w.:-]*)/)!;
+
+      return {
+        source,
+        name: match[2],
+        closing: match[1] === '/',
+        selfClosing: source.endsWith('/>'),
+        attributes: parseAttributes(source)
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the string attributes of a tag (label="npm", type={'warning'})
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|\{\s*["'`]([^"'`]*)["'`]\s*\})/g;
+
+  for (const match of source.matchAll(pattern)) {
+    attributes[match[1]] = match[2] ?? match[3] ?? match[4];
+  }
+
+  return attributes;
+}
+
+/**
+ * Text left in place of a tag: the label of tabs and callouts, nothing for other components
+ */
+function renderTag(tag: JsxTag): string {
+  if (tag.closing || tag.selfClosing) {
+    return '';
+  }
+
+  const { attributes } = tag;
+
+  if (TAB_COMPONENTS.has(tag.name)) {
+    const label = attributes.label ?? attributes.title ?? attributes.value;
+    return label ? `**${label}**` : '';
+  }
+
+  if (CALLOUT_COMPONENTS.has(tag.name)) {
+    const genericName = ['Callout', 'Admonition', 'Aside'].includes(tag.name);
+    const type = attributes.type ?? attributes.variant ?? (genericName ? 'note' : tag.name);
+    const label = attributes.title ?? type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+    return `**${label}:** `;
+  }
+
+  return '';
+}
+
+function lineBreaks(text: string): string {
+  return '\n'.repeat(text.split('\n').length - 1);
+}
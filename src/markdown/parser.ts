@@ -1,18 +1,51 @@
 import fs from 'fs/promises';
 import path from 'path';
 import matter from 'gray-matter';
+import { isMdxPath, stripMdx } from './mdx.js';
+
+/**
+ * Section of a markdown document: a heading and the text up to the next heading
+ * The content before the first heading is a root section without heading (level 0).
+ */
+export interface Section {
+  heading?: string;
+  level: number;        // 1-6 for # to ######, 0 for the root section
+  path: string[];       // Headings from the top-level section down to this one
+  anchor?: string;      // GitHub-style slug, unique within the document
+  startLine: number;    // 1-based, in the file (frontmatter included)
+  endLine: number;      // Last line before the next heading
+  content: string;      // Text of the section without its heading line or subsections
+  contentLine: number;  // Line where content starts
+  children: Section[];
+  symbol?: string;      // Qualified name of the API symbol documented by an extracted section
+  kind?: string;        // Kind of the API symbol (function, class, interface, method...)
+  metadata?: IndexedFrontmatter; // Overrides the document metadata (e.g., tags of an API operation)
+}
 
 export interface ParsedMarkdown {
   path: string;
   relativePath: string;
   content: string;
   frontmatter: Record<string, any>;
-  metadata: {
-    title: string;
-    h1?: string;
-    h2?: string;
-    h3?: string;
-  };
+  sections: Section[];  // Section tree (top-level sections)
+  metadata: DocumentMetadata;
+}
+
+/**
+ * Document-level metadata, including the frontmatter fields kept in the index
+ * (Docusaurus, VitePress, Hugo and Jekyll conventions)
+ */
+export interface DocumentMetadata extends IndexedFrontmatter {
+  title: string;
+  h1?: string;          // First heading of the document
+}
+
+export interface IndexedFrontmatter {
+  description?: string;
+  tags?: string[];      // tags and keywords
+  sidebar_label?: string;
+  version?: string;
+  deprecated?: boolean;
 }
 
 /**
@@ -29,57 +62,297 @@ export async function parseMarkdownFile(
   const fileContent = await fs.readFile(filePath, 'utf-8');
 
   // Parse frontmatter (if exists)
-  const { data: frontmatter, content: markdown } = matter(fileContent);
+  const { data: frontmatter, content: body } = matter(fileContent);
+  const markdown = isMdxPath(filePath) ? stripMdx(body) : body;
+
+  // Lines taken by the frontmatter, so that line numbers refer to the file
+  const lineOffset = fileContent.slice(0, fileContent.length - body.length).split('\n').length - 1;
 
+  return createParsedDocument(filePath, repoPath, markdown, frontmatter, lineOffset);
+}
+
+/**
+ * Build a parsed document from its markdown (other formats are converted to markdown first)
+ * @param filePath Absolute path to the file
+ * @param repoPath Path to the repository root
+ * @param markdown Markdown content, without frontmatter
+ * @param frontmatter Document metadata fields
+ * @param lineOffset Number of file lines before the markdown
+ */
+export function createParsedDocument(
+  filePath: string,
+  repoPath: string,
+  markdown: string,
+  frontmatter: Record<string, any>,
+  lineOffset = 0
+): ParsedMarkdown {
   // Calculate relative path from repo root
   const relativePath = path.relative(repoPath, filePath);
 
-  // Extract headers from markdown
-  const headers = extractHeaders(markdown);
+  const sections = parseSections(markdown, lineOffset);
+  const h1 = flattenSections(sections).find((section) => section.level === 1)?.heading;
 
   // Determine title (priority: frontmatter.title > h1 > filename)
   const title =
     frontmatter.title ||
-    headers.h1 ||
-    path.basename(filePath, '.md');
+    h1 ||
+    path.basename(filePath, path.extname(filePath));
 
   return {
     path: filePath,
     relativePath,
     content: markdown,
     frontmatter,
+    sections,
     metadata: {
       title,
-      h1: headers.h1,
-      h2: headers.h2,
-      h3: headers.h3
+      h1,
+      ...pickFrontmatter(frontmatter)
     }
   };
 }
 
 /**
- * Extract headers from markdown content
+ * Extract the frontmatter fields kept in the index, whatever their YAML shape
+ * (e.g., tags as a list or a comma-separated string, deprecated as a boolean or a message)
  */
-function extractHeaders(markdown: string): { h1?: string; h2?: string; h3?: string } {
-  const h1Match = markdown.match(/^#\s+(.+)$/m);
-  const h2Match = markdown.match(/^##\s+(.+)$/m);
-  const h3Match = markdown.match(/^###\s+(.+)$/m);
+export function pickFrontmatter(frontmatter: Record<string, any>): IndexedFrontmatter {
+  const text = (value: unknown) =>
+    typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+  const list = (value: unknown): string[] =>
+    Array.isArray(value)
+      ? value.flatMap((item) => text(typeof item === 'object' ? item?.label : item) ?? [])
+      : text(value)?.split(',').map((item) => item.trim()).filter(Boolean) ?? [];
+
+  // Lowercased so that tag filters are case-insensitive
+  const tags = Array.from(new Set([...list(frontmatter.tags), ...list(frontmatter.keywords)].map((tag) => tag.toLowerCase())));
+  const deprecated = frontmatter.deprecated;
 
   return {
-    h1: h1Match?.[1]?.trim(),
-    h2: h2Match?.[1]?.trim(),
-    h3: h3Match?.[1]?.trim()
+    description: text(frontmatter.description),
+    tags: tags.length > 0 ? tags : undefined,
+    sidebar_label: text(frontmatter.sidebar_label),
+    version: text(frontmatter.version),
+    deprecated: deprecated === undefined || deprecated === null ? undefined : deprecated !== false && deprecated !== 'false'
   };
 }
 
 /**
- * Parse multiple markdown files
+ * Split markdown into a section tree on ATX headings (# to ######)
+ * Headings inside fenced code blocks (e.g., shell comments) are ignored.
+ * @param markdown Markdown without frontmatter
+ * @param lineOffset Number of file lines before the markdown (frontmatter)
  */
-export async function parseMarkdownFiles(
-  filePaths: string[],
-  repoPath: string
-): Promise<ParsedMarkdown[]> {
-  return Promise.all(
-    filePaths.map(filePath => parseMarkdownFile(filePath, repoPath))
-  );
+export function parseSections(markdown: string, lineOffset = 0): Section[] {
+  const lines = markdown.split('\n');
+  const root: Section = {
+    level: 0,
+    path: [],
+    startLine: lineOffset + 1,
+    endLine: lineOffset,
+    content: '',
+    contentLine: lineOffset + 1,
+    children: []
+  };
+  const stack: Section[] = [root];
+  const anchors = new Map<string, number>();
+  let current = root;
+  let body: string[] = [];
+  let fence: string | undefined;
+
+  const closeCurrent = (endLine: number) => {
+    const leadingBlankLines = body.findIndex((line) => line.trim() !== '');
+    current.content = body.join('\n').trim();
+    current.contentLine = endLine - body.length + 1 + Math.max(leadingBlankLines, 0);
+    current.endLine = endLine;
+    body = [];
+  };
+
+  lines.forEach((line, i) => {
+    const lineNumber = lineOffset + i + 1;
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+    }
+
+    const headingMatch = fence || fenceMatch ? null : line.match(/^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+
+    if (!headingMatch) {
+      body.push(line);
+      return;
+    }
+
+    closeCurrent(lineNumber - 1);
+
+    const level = headingMatch[1].length;
+    const heading = headingMatch[2].trim();
+
+    // The parent is the closest open section with a lower level
+    while (stack.length > 1 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+
+    current = {
+      heading,
+      level,
+      path: [...parent.path, heading],
+      anchor: uniqueAnchor(slugify(heading), anchors),
+      startLine: lineNumber,
+      endLine: lineNumber,
+      content: '',
+      contentLine: lineNumber + 1,
+      children: []
+    };
+
+    parent.children.push(current);
+    stack.push(current);
+  });
+
+  closeCurrent(lineOffset + lines.length);
+
+  // Keep the root section only when there is text before the first heading
+  return root.content ? [{ ...root, children: [] }, ...root.children] : root.children;
+}
+
+/**
+ * Prose or fenced code block of a markdown text
+ */
+export interface MarkdownBlock {
+  type: 'text' | 'code';
+  text: string;         // Code blocks include their fence lines
+  startLine: number;    // 0-based line range within the text
+  endLine: number;
+  fence?: string;       // Opening fence line of code blocks (e.g., "```ts title=app.ts")
+  language?: string;    // Normalized language of code blocks (see normalizeLanguage)
+}
+
+/**
+ * Split markdown text into prose and fenced code blocks (``` or ~~~)
+ * An unclosed fence runs to the end of the text, like in CommonMark.
+ */
+export function splitFencedBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let start = 0;
+  let fence: { marker: string; line: string; start: number } | undefined;
+
+  const pushText = (end: number) => {
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      blocks.push({ type: 'text', text, startLine: start, endLine: end - 1 });
+    }
+  };
+
+  const pushCode = (end: number) => {
+    const info = fence!.line.trim().slice(fence!.marker.length).trim();
+    blocks.push({
+      type: 'code',
+      text: lines.slice(fence!.start, end + 1).join('\n'),
+      startLine: fence!.start,
+      endLine: end,
+      fence: fence!.line.trim(),
+      language: normalizeLanguage(info.split(/[\s{]/)[0])
+    });
+  };
+
+  lines.forEach((line, i) => {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+
+    if (!marker) {
+      return;
+    }
+
+    if (!fence) {
+      pushText(i);
+      fence = { marker, line, start: i };
+    } else if (marker[0] === fence.marker[0] && marker.length >= fence.marker.length && !line.trim().slice(marker.length)) {
+      pushCode(i);
+      fence = undefined;
+      start = i + 1;
+    }
+  });
+
+  if (fence) {
+    pushCode(lines.length - 1);
+  } else {
+    pushText(lines.length);
+  }
+
+  return blocks;
+}
+
+// Common aliases of code fence languages
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  py: 'python',
+  python3: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  'shell-session': 'bash',
+  yml: 'yaml',
+  rb: 'ruby',
+  rs: 'rust',
+  golang: 'go',
+  'c++': 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  kt: 'kotlin',
+  md: 'markdown',
+  ps1: 'powershell',
+  docker: 'dockerfile'
+};
+
+/**
+ * Normalize a code fence language (e.g., "TS" -> "typescript", "sh" -> "bash")
+ * @returns The language, or undefined for unlabeled blocks
+ */
+export function normalizeLanguage(language: string | undefined): string | undefined {
+  const name = language?.trim().toLowerCase().replace(/^\./, '');
+  if (!name) {
+    return undefined;
+  }
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * List the sections of a tree in document order
+ */
+export function flattenSections(sections: Section[]): Section[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children)]);
+}
+
+/**
+ * GitHub-style heading slug (e.g., "Hooks & `useEffect`" -> "hooks--useeffect")
+ */
+export function slugify(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images keep their text
+    .replace(/<[^>]+>/g, '')                    // Inline HTML
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Suffix repeated slugs like GitHub does ("usage", "usage-1", "usage-2")
+ */
+function uniqueAnchor(slug: string, seen: Map<string, number>): string {
+  const count = seen.get(slug);
+  seen.set(slug, (count ?? -1) + 1);
+  return count === undefined ? slug : `${slug}-${count + 1}`;
 }
@@ -0,0 +1,60 @@
+import path from 'path';
+import { parseMarkdownFile, type ParsedMarkdown } from './parser.js';
+import { parseRstFile } from './rst.js';
+import { parseAsciidocFile } from './asciidoc.js';
+
+/**
+ * Parse a documentation file into sections of markdown, whatever its format
+ * @param filePath Absolute path to the file
+ * @param repoPath Path to the repository root
+ */
+export type DocumentParser = (filePath: string, repoPath: string) => Promise<ParsedMarkdown>;
+
+// Parsers keyed by lowercased file extension (e.g., ".rst")
+const parsers = new Map<string, DocumentParser>();
+
+/**
+ * Register the parser of one or more file extensions (replaces any previous parser)
+ */
+export function registerParser(extensions: string[], parser: DocumentParser): void {
+  for (const extension of extensions) {
+    parsers.set(extension.toLowerCase(), parser);
+  }
+}
+
+/**
+ * Get the parser of a file from its extension
+ * @returns The parser, or undefined if the format is not supported
+ */
+export function getParser(filePath: string): DocumentParser | undefined {
+  return parsers.get(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * List the extensions of the supported documentation formats
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(parsers.keys());
+}
+
+/**
+ * Parse documentation files with the parser of their format
+ */
+export async function parseDocumentFiles(
+  filePaths: string[],
+  repoPath: string
+): Promise<ParsedMarkdown[]> {
+  return Promise.all(
+    filePaths.map((filePath) => {
+      const parser = getParser(filePath);
+      if (!parser) {
+        throw new Error(`Unsupported documentation format: ${filePath}`);
+      }
+      return parser(filePath, repoPath);
+    })
+  );
+}
+
+registerParser(['.md', '.mdx', '.markdown'], parseMarkdownFile);
+registerParser(['.rst', '.rest'], parseRstFile);
+registerParser(['.adoc', '.asciidoc', '.asc'], parseAsciidocFile);
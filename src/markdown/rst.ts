@@ -0,0 +1,300 @@
+import fs from 'fs/promises';
+import { createParsedDocument, type ParsedMarkdown } from './parser.js';
+
+/**
+ * Parse a reStructuredText file (Sphinx, docutils) into the markdown document structure
+ * @param filePath Absolute path to the .rst file
+ * @param repoPath Path to the repository root
+ */
+export async function parseRstFile(filePath: string, repoPath: string): Promise<ParsedMarkdown> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const { markdown, fields } = rstToMarkdown(source);
+
+  return createParsedDocument(filePath, repoPath, markdown, fields);
+}
+
+// Directives whose content is code, their argument is the language
+const CODE_DIRECTIVES = new Set(['code-block', 'code', 'sourcecode', 'ipython', 'doctest', 'testcode']);
+
+// Admonition labels, the content is kept after the label
+const ADMONITIONS: Record<string, string> = {
+  note: 'Note',
+  warning: 'Warning',
+  tip: 'Tip',
+  hint: 'Hint',
+  important: 'Important',
+  caution: 'Caution',
+  danger: 'Danger',
+  attention: 'Attention',
+  error: 'Error',
+  seealso: 'See also',
+  admonition: '',
+  deprecated: 'Deprecated since',
+  versionadded: 'Added in',
+  versionchanged: 'Changed in'
+};
+
+// Directives without readable content (navigation, includes, images, API autodoc)
+const SKIPPED_DIRECTIVES = /^(toctree|include|literalinclude|raw|image|figure|index|contents|highlight|default-role|currentmodule|module|py:module|py:currentmodule|auto\w+|meta|role|sectionauthor|codeauthor|tabularcolumns)$/;
+
+// Section adornment: a line of one repeated punctuation character
+const ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+
+// Roles naming code objects, kept as inline code
+const CODE_ROLES = /^(?:py:|c:|cpp:|js:)?(func|meth|class|attr|mod|data|exc|obj|const|var|type|member|code|envvar|option|file|command|program|samp|kbd|term)$/;
+
+/**
+ * Convert reStructuredText to markdown, line for line
+ * Section titles become ATX headings (levels follow the order adornment styles appear in,
+ * like docutils does), code-block directives and literal blocks become fenced code blocks,
+ * admonitions keep a bold label and the docinfo field list is returned as metadata.
+ */
+export function rstToMarkdown(source: string): { markdown: string; fields: Record<string, string> } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const fields: Record<string, string> = {};
+  const styles: string[] = [];
+
+  // Docinfo: field list before anything else (e.g., ":tags: hooks, api")
+  let start = 0;
+  while (start < lines.length) {
+    const field = lines[start].match(/^:([\w-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].trim();
+    } else if (lines[start].trim() !== '') {
+      break;
+    }
+    start++;
+  }
+
+  const converted = convertLines(lines.slice(start), styles, fields);
+
+  return { markdown: [...lines.slice(0, start).map(() => ''), ...converted].join('\n'), fields };
+}
+
+/**
+ * Convert a run of lines (the document, or the dedented content of a directive)
+ * @param styles Adornment styles in order of appearance, shared by the whole document
+ */
+function convertLines(lines: string[], styles: string[], fields: Record<string, string>): string[] {
+  const out: string[] = [];
+  let i = 0;
+
+  const headingLevel = (style: string) => {
+    if (!styles.includes(style)) {
+      styles.push(style);
+    }
+    return Math.min(styles.indexOf(style) + 1, 6);
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const next = lines[i + 1] ?? '';
+    const previousBlank = i === 0 || lines[i - 1].trim() === '';
+
+    // Title with overline and underline
+    if (ADORNMENT.test(line) && lines[i + 2] !== undefined && lines[i + 2].trim() === line.trim() && next.trim() && !ADORNMENT.test(next)) {
+      out.push('', `${'#'.repeat(headingLevel(`o${line[0]}`))} ${convertInline(next.trim())}`, '');
+      i += 3;
+      continue;
+    }
+
+    // Title with underline only
+    if (previousBlank && line.trim() && !/^\s/.test(line) && !ADORNMENT.test(line) && ADORNMENT.test(next) && next.trim().length >= Math.min(line.trim().length, 3)) {
+      out.push(`${'#'.repeat(headingLevel(`u${next[0]}`))} ${convertInline(line.trim())}`, '');
+      i += 2;
+      continue;
+    }
+
+    // Transition
+    if (ADORNMENT.test(line) && line.trim().length >= 4 && previousBlank) {
+      out.push('');
+      i++;
+      continue;
+    }
+
+    const explicit = line.match(/^(\s*)\.\.(?:\s+(.*))?$/);
+    if (explicit) {
+      i = convertExplicitMarkup(lines, i, explicit[1].length, explicit[2] ?? '', out, styles, fields);
+      continue;
+    }
+
+    // Paragraph introducing a literal block ("Example::")
+    if (line.trimEnd().endsWith('::')) {
+      const indent = indentOf(line);
+      const end = blockEnd(lines, i + 1, indent);
+
+      if (end > i) {
+        const text = line.trimEnd().slice(0, -2).trimEnd();
+        out.push(text.trim() ? `${convertInline(text)}:` : '');
+        i = emitCodeBlock(lines, i + 1, end, '', out);
+        continue;
+      }
+    }
+
+    out.push(convertInline(line));
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Convert a directive, comment, target or footnote starting at a line
+ * @returns Index of the line after it
+ */
+function convertExplicitMarkup(
+  lines: string[],
+  start: number,
+  indent: number,
+  text: string,
+  out: string[],
+  styles: string[],
+  fields: Record<string, string>
+): number {
+  const end = blockEnd(lines, start + 1, indent);
+  const directive = text.match(/^([\w:-]+)::\s*(.*)$/);
+
+  if (!directive) {
+    // Footnotes and citations keep their text, comments and targets are dropped
+    const note = text.match(/^(\[[^\]]+\])\s+(.*)$/);
+    out.push(note ? convertInline(`${note[1]} ${note[2]}`) : '');
+    for (let i = start + 1; i <= end; i++) {
+      out.push(note ? convertInline(lines[i].trim()) : '');
+    }
+    return end + 1;
+  }
+
+  const name = directive[1].toLowerCase();
+  const argument = directive[2].trim();
+
+  // Options (":linenos:") directly follow the directive line
+  let contentStart = start + 1;
+  const options: Record<string, string> = {};
+  while (contentStart <= end) {
+    const option = lines[contentStart].match(/^\s+:([\w-]+):\s*(.*)$/);
+    if (!option) {
+      break;
+    }
+    options[option[1].toLowerCase()] = option[2].trim();
+    contentStart++;
+  }
+
+  if (name === 'meta') {
+    for (const key of ['description', 'keywords']) {
+      if (options[key] && !fields[key]) {
+        fields[key] = options[key];
+      }
+    }
+  }
+
+  if (CODE_DIRECTIVES.has(name)) {
+    const language = name === 'ipython' || name === 'doctest' || name === 'testcode' ? 'python' : argument.split(/\s/)[0];
+    for (let i = start; i < contentStart; i++) {
+      out.push('');
+    }
+    return emitCodeBlock(lines, contentStart, end, language, out);
+  }
+
+  if (SKIPPED_DIRECTIVES.test(name)) {
+    for (let i = start; i <= end; i++) {
+      out.push('');
+    }
+    return end + 1;
+  }
+
+  // Admonitions keep a label, other directives (tabs, containers, API objects) their argument
+  if (name in ADMONITIONS) {
+    const label = [ADMONITIONS[name], argument].filter(Boolean).join(' ');
+    out.push(label ? `**${convertInline(label)}:**` : '');
+  } else {
+    out.push(argument ? `**${convertInline(argument)}**` : '');
+  }
+
+  for (let i = start + 1; i < contentStart; i++) {
+    out.push('');
+  }
+
+  // The blank line after the content is kept with it, to close a code block ending the content
+  const contentEnd = lines[end + 1] !== undefined && lines[end + 1].trim() === '' ? end + 1 : end;
+  out.push(...convertLines(dedent(lines.slice(contentStart, contentEnd + 1)), styles, fields));
+
+  return contentEnd + 1;
+}
+
+/**
+ * Emit an indented block as a fenced code block
+ * The fence opens on the line before the block (the blank line after the directive or "::")
+ * and closes on the blank line after it, so that the line count is unchanged.
+ * @returns Index of the line after the block and its closing fence
+ */
+function emitCodeBlock(lines: string[], start: number, end: number, language: string, out: string[]): number {
+  const body = dedent(lines.slice(start, end + 1));
+  const firstCode = body.findIndex((line) => line.trim() !== '');
+
+  if (firstCode === -1) {
+    out.push(...body.map(() => ''));
+    return end + 1;
+  }
+
+  const fence = `\`\`\`${language}`;
+  if (firstCode > 0) {
+    out.push(...body.slice(0, firstCode - 1).map(() => ''), fence, ...body.slice(firstCode));
+  } else if (out.length > 0) {
+    out[out.length - 1] += `\n${fence}`;
+    out.push(...body);
+  } else {
+    out.push(fence, ...body);
+  }
+
+  if (lines[end + 1] !== undefined && lines[end + 1].trim() === '') {
+    out.push('```');
+    return end + 2;
+  }
+
+  out[out.length - 1] += '\n```';
+  return end + 1;
+}
+
+/**
+ * Last line of the block indented more than a given column (blank lines inside included)
+ * @returns The line before start if there is no such block
+ */
+function blockEnd(lines: string[], start: number, indent: number): number {
+  let end = start - 1;
+
+  for (let i = start; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    if (indentOf(lines[i]) <= indent) {
+      break;
+    }
+    end = i;
+  }
+
+  return end;
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+function dedent(lines: string[]): string[] {
+  const indent = Math.min(...lines.filter((line) => line.trim() !== '').map(indentOf));
+  return lines.map((line) => (line.trim() === '' ? '' : line.slice(Number.isFinite(indent) ? indent : 0)));
+}
+
+/**
+ * Convert inline markup: ``literals``, :roles:`targets` and `hyperlinks <url>`_
+ */
+function convertInline(text: string): string {
+  return text
+    .replace(/``(.+?)``/g, '`$1`')
+    .replace(/:([\w:-]+):`([^`]+)`/g, (_match, role: string, target: string) => {
+      // ":ref:`Title <label>`" shows the title, "~pkg.func" only the last name
+      const title = target.match(/^(.*?)\s*<[^>]+>$/)?.[1] || target.replace(/^~.*\./, '').replace(/^[!~]/, '');
+      return CODE_ROLES.test(role) ? `\`${title}\`` : title;
+    })
+    .replace(/`([^`<]+?)\s*<([^>]+)>`__?/g, '[$1]($2)')
+    .replace(/`([^`]+)`__?/g, '$1');
+}
@@ -0,0 +1,227 @@
+import http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import chalk from 'chalk';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { listSources } from '../config.js';
+import { handleRestRequest, isRestPath } from '../api/rest.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  token?: string; // Bearer token required on the MCP endpoint and the REST API
+  rest?: boolean; // Serve the REST API (GET /sources, POST /search, GET /doc)
+}
+
+// Endpoint of the streamable HTTP transport
+const MCP_PATH = '/mcp';
+
+// Sessions without any request for this long are closed (clients that exited without DELETE)
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+// Largest accepted request body
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+// JSON-RPC error code of transport-level errors (no session, unauthorized)
+const TRANSPORT_ERROR = -32000;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+/**
+ * Serve MCP over streamable HTTP: POST, GET (SSE stream) and DELETE on /mcp
+ * Each client session gets its own MCP server, all of them share this process (config,
+ * LanceDB connection, embedder). GET /health reports the server status without authentication.
+ * With options.rest, the REST API is served next to it, behind the same bearer token.
+ * @param createServer Creates the MCP server of a new session
+ * @returns URL of the MCP endpoint
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<string> {
+  const sessions = new Map<string, Session>();
+  const loopback = LOOPBACK_HOSTS.has(options.host) || options.host === '::1';
+
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // A page in a browser may reach a server on localhost through a rebound domain name
+    if (loopback && !LOOPBACK_HOSTS.has(hostnameOf(req.headers.host))) {
+      sendJson(res, 403, { error: `Host not allowed: ${req.headers.host}` });
+      return;
+    }
+
+    if (url.pathname === '/health') {
+      const sources = await listSources();
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: sessions.size,
+        sources: sources.length,
+        ready: sources.filter((source) => source.status === 'ready').length
+      });
+      return;
+    }
+
+    const rest = options.rest === true && isRestPath(url.pathname);
+
+    if (url.pathname !== MCP_PATH && !rest) {
+      sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      const message = 'Unauthorized: missing or invalid bearer token';
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      if (rest) {
+        sendJson(res, 401, { error: message });
+      } else {
+        sendJsonRpcError(res, 401, TRANSPORT_ERROR, message);
+      }
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error: any) {
+        const message = `Parse error: ${error.message}`;
+        if (rest) {
+          sendJson(res, 400, { error: message });
+        } else {
+          sendJsonRpcError(res, 400, ErrorCode.ParseError, message);
+        }
+        return;
+      }
+    }
+
+    if (rest) {
+      const response = await handleRestRequest(req.method ?? 'GET', url, body, options.token !== undefined);
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body));
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, TRANSPORT_ERROR, 'Session not found, initialize a new session');
+        return;
+      }
+
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, TRANSPORT_ERROR, 'Bad request: no session ID, send an initialize request first');
+      return;
+    }
+
+    // New session
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastSeen: Date.now() });
+        console.error(chalk.dim(`  Session ${id} opened (${sessions.size} active)`));
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(chalk.dim(`  Session ${transport.sessionId} closed (${sessions.size} active)`));
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error(chalk.red(`✖ ${req.method} ${req.url}: ${error.message}`));
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Close abandoned sessions
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const session of sessions.values()) {
+      if (now - session.lastSeen > SESSION_IDLE_TIMEOUT) {
+        void session.server.close();
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  const host = options.host.includes(':') && !options.host.startsWith('[') ? `[${options.host}]` : options.host;
+
+  return `http://${host}:${port}${MCP_PATH}`;
+}
+
+/**
+ * Check the bearer token of a request (constant-time comparison)
+ */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const provided = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Host name of a Host header, without port ("localhost:3000" -> "localhost", "[::1]:3000" -> "[::1]")
+ */
+function hostnameOf(host: string | undefined): string {
+  return (host ?? '').replace(/:\d+$/, '').toLowerCase();
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error(`request body larger than ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
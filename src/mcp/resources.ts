@@ -0,0 +1,188 @@
+import path from 'path';
+import { ErrorCode, McpError, type Resource, type ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { getSourceByRepo, listSources, type Source } from '../config.js';
+import { readDocument } from '../api/docs.js';
+import { listIndexedFiles, type IndexedFile } from '../storage/lancedb.js';
+
+// Resources per page of resources/list
+const PAGE_SIZE = 100;
+
+/**
+ * Files of indexed sources, and the table of contents of a source when the path is empty
+ */
+export const DOCUMENT_TEMPLATE: ResourceTemplate = {
+  uriTemplate: 'feedd://{owner}/{repo}@{branch}/{+path}',
+  name: 'document',
+  title: 'Documentation file',
+  description: 'A file of an indexed repository, by its path as returned by search_docs (e.g., feedd://facebook/react@main/docs/hooks-reference.md). feedd://{owner}/{repo}@{branch} is the table of contents of the repository.',
+  mimeType: 'text/markdown'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.mdx': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/markdown', // Converted, see readDocument
+  '.htm': 'text/markdown',
+  '.rst': 'text/x-rst',
+  '.rest': 'text/x-rst',
+  '.adoc': 'text/asciidoc',
+  '.asciidoc': 'text/asciidoc',
+  '.asc': 'text/asciidoc',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.json': 'application/json',
+  '.ts': 'text/typescript',
+  '.mts': 'text/typescript',
+  '.cts': 'text/typescript'
+};
+
+/**
+ * URI of the table of contents of a source (e.g., "feedd://facebook/react@main")
+ */
+export function sourceUri(source: Source): string {
+  return `feedd://${source.owner}/${source.repo}@${source.branch}`;
+}
+
+/**
+ * URI of a file of a source (e.g., "feedd://facebook/react@main/docs/hooks-reference.md")
+ */
+export function documentUri(source: Source, filePath: string): string {
+  return `${sourceUri(source)}/${filePath.split(/[\\/]/).map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * List the table of contents of every indexed source, followed by its files
+ * Pages go through the sources in order, so that only the files of the sources on a page are read.
+ * @param cursor Source index and offset in its resources ("2:100"), returned as nextCursor by the previous page
+ */
+export async function listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const match = cursor === undefined ? ['', '0', '0'] : cursor.match(/^(\d+):(\d+)$/);
+
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+
+  const [firstSource, offset] = [Number(match[1]), Number(match[2])];
+
+  // Sources that never finished indexing have no files yet
+  const sources = (await listSources()).filter((source) => source.generation);
+  const resources: Resource[] = [];
+
+  for (let i = firstSource; i < sources.length; i++) {
+    const source = sources[i];
+    const entries: Resource[] = [{
+      uri: sourceUri(source),
+      name: `${source.owner}/${source.repo}@${source.branch}`,
+      title: `${source.owner}/${source.repo}@${source.branch} table of contents`,
+      description: `Indexed files of ${source.owner}/${source.repo}@${source.branch} with their sections`,
+      mimeType: 'text/markdown'
+    }];
+
+    for (const file of await listIndexedFiles(source.generation!)) {
+      entries.push({
+        uri: documentUri(source, file.path),
+        name: file.path,
+        title: file.title,
+        description: file.description,
+        mimeType: mimeTypeOf(file.path)
+      });
+    }
+
+    const from = i === firstSource ? offset : 0;
+    const page = entries.slice(from, from + PAGE_SIZE - resources.length);
+    resources.push(...page);
+
+    if (resources.length === PAGE_SIZE) {
+      const next = from + page.length;
+      if (next < entries.length) {
+        return { resources, nextCursor: `${i}:${next}` };
+      }
+      return { resources, nextCursor: i + 1 < sources.length ? `${i + 1}:0` : undefined };
+    }
+  }
+
+  return { resources };
+}
+
+/**
+ * Read a resource: the table of contents of a source, or one of its files
+ */
+export async function readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  const { source, filePath } = await resolveUri(uri);
+
+  if (!filePath) {
+    if (!source.generation) {
+      throw new McpError(ErrorCode.InvalidParams, `Repository ${source.owner}/${source.repo}@${source.branch} is not indexed yet`);
+    }
+
+    const files = await listIndexedFiles(source.generation);
+    return { uri, mimeType: 'text/markdown', text: tableOfContents(source, files) };
+  }
+
+  return { uri, mimeType: mimeTypeOf(filePath), text: await readDocument(source, filePath) };
+}
+
+/**
+ * Find the source and file of a feedd:// URI
+ * Branches may contain slashes (release/1.x), the longest branch of the repository wins.
+ */
+async function resolveUri(uri: string): Promise<{ source: Source; filePath?: string }> {
+  const match = uri.match(/^feedd:\/\/([^/]+)\/([^/@]+)@(.+)$/);
+
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}. Expected feedd://{owner}/{repo}@{branch}/{path}`);
+  }
+
+  let owner: string, repo: string, rest: string;
+  try {
+    [, owner, repo, rest] = match.map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding (e.g., "%E0%A4%A")
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}. Malformed percent-encoding`);
+  }
+
+  const source = (await getSourceByRepo(owner, repo))
+    .filter((candidate) => rest === candidate.branch || rest.startsWith(`${candidate.branch}/`))
+    .sort((a, b) => b.branch.length - a.branch.length)[0];
+
+  if (!source) {
+    throw new McpError(ErrorCode.InvalidParams, `Repository ${owner}/${repo} is not indexed for ${uri}`);
+  }
+
+  const filePath = rest.slice(source.branch.length + 1);
+  return { source, filePath: filePath || undefined };
+}
+
+/**
+ * Markdown list of the files of a source, with links to their resources and sections
+ */
+function tableOfContents(source: Source, files: IndexedFile[]): string {
+  const lines = [`# ${source.owner}/${source.repo}@${source.branch}`, ''];
+
+  for (const file of files) {
+    const uri = documentUri(source, file.path);
+    lines.push(`- [${file.title}](${uri}) \`${file.path}\`${file.description ? ` - ${file.description}` : ''}`);
+
+    for (const { section, anchor } of file.sections) {
+      const headings = section.split(' > ');
+      const heading = headings[headings.length - 1];
+      // The top-level heading is usually the title of the file, already listed
+      const depth = headings[0] === file.title ? headings.length - 1 : headings.length;
+      if (depth === 0) {
+        continue;
+      }
+      lines.push(`${'  '.repeat(depth)}- ${anchor ? `[${heading}](${uri}#${anchor})` : heading}`);
+    }
+  }
+
+  if (files.length === 0) {
+    lines.push('No indexed files.');
+  }
+
+  return lines.join('\n');
+}
+
+function mimeTypeOf(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'text/plain';
+}
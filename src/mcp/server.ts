@@ -2,21 +2,40 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { listSources } from '../config.js';
-import { OllamaEmbedder } from '../embeddings/ollama.js';
-import { search, listTables } from '../storage/lancedb.js';
-import fs from 'fs/promises';
-import path from 'path';
+import { getDoc, listSourceSummaries, searchDocs } from '../api/docs.js';
+import { getServerConfig } from '../config.js';
+import { DOCUMENT_TEMPLATE, listResources, readResource } from './resources.js';
+import {
+  getIndexingJobs,
+  removeSourceById,
+  startAddSource,
+  startSyncSource,
+  watchJob,
+  type IndexingJob
+} from './sources.js';
+import { SEARCH_MODES } from '../storage/lancedb.js';
 import chalk from 'chalk';
 
 interface ServeOptions {
   port?: string;
+  host?: string;
+  http?: boolean;  // Streamable HTTP transport instead of stdio
+  token?: string;  // Bearer token required from HTTP clients
+  rest?: boolean;  // Also serve the REST API (implies http)
 }
 
-export async function startMCPServer(options: ServeOptions) {
+/**
+ * Create an MCP server with the feedd tools and resources
+ * Every connection (the stdio client, or each HTTP session) gets its own server.
+ * @param transport Over HTTP, the tools that add, sync and remove sources need server.httpSourceTools
+ */
+export function createMCPServer(transport: 'stdio' | 'http' = 'stdio'): Server {
   const server = new Server(
     {
       name: 'feedd',
@@ -25,6 +44,7 @@ export async function startMCPServer(options: ServeOptions) {
     {
       capabilities: {
         tools: {},
+        resources: {},
       },
     }
   );
@@ -43,7 +63,7 @@ export async function startMCPServer(options: ServeOptions) {
   // Tool 2: search_docs
   const searchDocsTool: Tool = {
     name: 'search_docs',
-    description: 'Search documentation using vector similarity to find relevant information from indexed GitHub repositories. Use this automatically whenever the user asks questions about programming concepts, API usage, library/framework features, syntax, best practices, code examples, error messages, or any technical question that could be answered by consulting documentation. This is your primary tool for retrieving accurate, up-to-date information from the indexed repositories.',
+    description: 'Search documentation using hybrid keyword (BM25) and vector similarity search to find relevant information from indexed GitHub repositories. Use this automatically whenever the user asks questions about programming concepts, API usage, library/framework features, syntax, best practices, code examples, error messages, or any technical question that could be answered by consulting documentation. This is your primary tool for retrieving accurate, up-to-date information from the indexed repositories.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -59,6 +79,32 @@ export async function startMCPServer(options: ServeOptions) {
           type: 'number',
           description: 'Maximum number of results to return (default: 5). Increase this when the user needs comprehensive information or multiple examples.',
         },
+        mode: {
+          type: 'string',
+          enum: SEARCH_MODES,
+          description: 'Optional: "hybrid" (default) combines keyword and semantic search, "fts" is keyword-only and best for exact identifiers, CLI flags or error codes, "vector" is semantic-only.',
+        },
+        language: {
+          type: 'string',
+          description: 'Optional: only return chunks containing a code example in this language (e.g., "typescript", "python", "bash"). Use this when the user wants an example in a specific language.',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional: only search files matching this glob (e.g., "docs/api/**", "**/*.md"). Use this to restrict the search to a part of the documentation seen in previous results.',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: only search documents having one of these frontmatter tags or keywords.',
+        },
+        version: {
+          type: 'string',
+          description: 'Optional: only search documents whose frontmatter version matches (e.g., "v2").',
+        },
+        exclude_deprecated: {
+          type: 'boolean',
+          description: 'Optional: skip documents marked deprecated in their frontmatter.',
+        },
       },
       required: ['query'],
     },
@@ -67,7 +113,7 @@ export async function startMCPServer(options: ServeOptions) {
   // Tool 3: get_doc
   const getDocTool: Tool = {
     name: 'get_doc',
-    description: 'Retrieve the full Markdown content of a specific documentation file by its path. Use this when the user needs complete documentation page content (not just snippets), when they reference a specific file path from search results and want more details, or when search_docs results indicate that a full page view would be helpful. The full page often contains additional context, examples, and related information not present in search chunks.',
+    description: 'Retrieve the content of a specific documentation file by its path (Markdown, reStructuredText, AsciiDoc, an HTML page converted to markdown, or an OpenAPI description for API operations and schemas). Use this when the user needs complete documentation page content (not just snippets), when they reference a specific file path from search results and want more details, or when search_docs results indicate that a full page view would be helpful. The full page often contains additional context, examples, and related information not present in search chunks. To read only part of a long page, pass the section (its metadata.anchor or heading from search_docs results) or a line range (metadata.start_line/end_line). Long content is paginated: continue with the returned cursor.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -81,139 +127,249 @@ export async function startMCPServer(options: ServeOptions) {
         },
         path: {
           type: 'string',
-          description: 'Relative path to the markdown file (e.g., "docs/hooks-reference.md")',
+          description: 'Relative path to the file, as returned by search_docs (e.g., "docs/hooks-reference.md", "api/openapi.yaml")',
+        },
+        section: {
+          type: 'string',
+          description: 'Optional: only return this section and its subsections, by anchor (e.g., "cleanup-function"), heading ("Cleanup function") or heading path ("useEffect > Cleanup function")',
+        },
+        start_line: {
+          type: 'number',
+          description: 'Optional: first line to return (1-based)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'Optional: last line to return (inclusive)',
+        },
+        max_tokens: {
+          type: 'number',
+          description: 'Optional: maximum size of the returned content (default: 10000). Longer content is cut at a line boundary and a cursor is returned for the next page.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: cursor returned by the previous call, to get the next page of the same range',
         },
       },
       required: ['repo', 'branch', 'path'],
     },
   };
 
+  // Tool 4: add_source
+  const addSourceTool: Tool = {
+    name: 'add_source',
+    description: 'Add a documentation source (GitHub repository, git URL or local directory) and index it in the background. Use this when the user asks about a library or framework that list_sources does not show, or asks to index documentation. Returns immediately with the indexing job unless the client follows progress; the source can be searched once get_indexing_status reports it done.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo: {
+          type: 'string',
+          description: 'owner/repo[@branch] of a GitHub repository (e.g., "facebook/react", "vercel/next.js@canary"), a git URL with an optional #branch, or a local directory path (only under the directories allowed by the server)',
+        },
+        branch: {
+          type: 'string',
+          description: 'Optional: branch to index (default: main)',
+        },
+        include: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: only index files matching these globs, relative to the repository root (e.g., ["docs/**"]). Use this for large repositories whose documentation lives in one directory.',
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: skip files matching these globs (e.g., ["**/i18n/**", "CHANGELOG.md"])',
+        },
+        typescript_api: {
+          type: 'boolean',
+          description: 'Optional: also index the exported API (signatures, TSDoc) of the .ts/.d.ts files',
+        },
+        html: {
+          type: 'boolean',
+          description: 'Optional: also index .html pages (a built documentation site)',
+        },
+      },
+      required: ['repo'],
+    },
+  };
+
+  // Tool 5: sync_source
+  const syncSourceTool: Tool = {
+    name: 'sync_source',
+    description: 'Pull and re-index a source in the background (only the files changed since the last index when possible). Use this when the user says the indexed documentation is outdated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Source ID, as returned by list_sources (e.g., "facebook-react-main")',
+        },
+      },
+      required: ['source'],
+    },
+  };
+
+  // Tool 6: remove_source
+  const removeSourceTool: Tool = {
+    name: 'remove_source',
+    description: 'Remove a source and delete its index and cloned files. Only use this when the user explicitly asks to remove documentation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Source ID, as returned by list_sources (e.g., "facebook-react-main")',
+        },
+      },
+      required: ['source'],
+    },
+  };
+
+  // Tool 7: get_indexing_status
+  const getIndexingStatusTool: Tool = {
+    name: 'get_indexing_status',
+    description: 'Get the progress of the indexing jobs started by add_source and sync_source (queued, running, done or failed, current step, chunk count, error).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description: 'Optional: only the job of this source ID. Leave empty to list every job of this server.',
+        },
+      },
+      required: [],
+    },
+  };
+
+  const sourceTools = [addSourceTool, syncSourceTool, removeSourceTool, getIndexingStatusTool];
+
   // Handler for list_tools
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [listSourcesTool, searchDocsTool, getDocTool],
-  }));
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const disabled = await sourceToolsDisabled(transport);
+
+    return {
+      tools: [listSourcesTool, searchDocsTool, getDocTool, ...(disabled ? [] : sourceTools)],
+    };
+  });
 
   // Handler for call_tool
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     try {
+      if (sourceTools.some((tool) => tool.name === name)) {
+        const disabled = await sourceToolsDisabled(transport);
+        if (disabled) {
+          throw new Error(`${name} is disabled (${disabled})`);
+        }
+      }
+
+      // Follow the indexing job with progress notifications when the client asked for them
+      const followJob = async (job: IndexingJob) => {
+        const progressToken = request.params._meta?.progressToken;
+        if (progressToken === undefined) {
+          return job;
+        }
+
+        let reported = 0;
+        return watchJob(job, ({ progress, total, step }) => {
+          // Progress must increase with each notification
+          if (progress > reported) {
+            reported = progress;
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message: step },
+            }).catch(() => {});
+          }
+        }, extra.signal);
+      };
+
       switch (name) {
         case 'list_sources': {
-          const sources = await listSources();
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(
-                  sources.map(s => ({
-                    id: s.id,
-                    repo: `${s.owner}/${s.repo}`,
-                    branch: s.branch,
-                    lastUpdated: s.lastUpdated,
-                    docCount: s.docCount || 0,
-                    status: s.status
-                  })),
-                  null,
-                  2
-                ),
+                text: JSON.stringify(await listSourceSummaries(), null, 2),
               },
             ],
           };
         }
 
         case 'search_docs': {
-          const { query, source, limit = 5 } = args as any;
+          const { results, warning } = await searchDocs((args ?? {}) as any);
 
-          if (!query) {
-            throw new Error('Query parameter is required');
+          const content = [
+            {
+              type: 'text',
+              text: JSON.stringify(results, null, 2),
+            },
+          ];
+
+          // Tell the client that part of the documentation was not searched
+          if (warning) {
+            content.push({
+              type: 'text',
+              text: `Note: ${warning}`,
+            });
           }
 
-          // Generate query embedding
-          const embedder = new OllamaEmbedder();
+          return { content };
+        }
 
-          // Check if Ollama is available
-          if (!await embedder.checkHealth()) {
-            throw new Error('Ollama is not available. Please start Ollama and ensure mxbai-embed-large model is installed.');
-          }
+        case 'get_doc': {
+          const document = await getDoc((args ?? {}) as any);
 
-          const [queryVector] = await embedder.embed([query]);
-
-          let results: any[] = [];
-
-          if (source) {
-            // Search in specific source
-            results = await search(source, queryVector, limit);
-          } else {
-            // Search in all sources
-            const tables = await listTables();
-
-            for (const tableName of tables) {
-              try {
-                const tableResults = await search(tableName, queryVector, limit);
-                results.push(...tableResults);
-              } catch (error) {
-                // Silently skip tables that don't exist or have errors
-              }
-            }
-
-            // Sort by distance and limit
-            results.sort((a, b) => a._distance - b._distance);
-            results = results.slice(0, limit);
+          const content = [
+            {
+              type: 'text',
+              text: document.content,
+            },
+          ];
+
+          // Tell the client which part of the file it got, and how to get the rest
+          if (document.start_line > 1 || document.end_line < document.total_lines) {
+            const range = `Lines ${document.start_line}-${document.end_line} of ${document.total_lines}${document.section ? ` (section "${document.section}")` : ''}.`;
+            content.push({
+              type: 'text',
+              text: document.next_cursor ? `${range} More content: call get_doc with cursor "${document.next_cursor}".` : range,
+            });
           }
 
+          return { content };
+        }
+
+        case 'add_source': {
+          const job = await startAddSource(args as any);
+          return jobResult(await followJob(job));
+        }
+
+        case 'sync_source': {
+          const job = await startSyncSource((args as any)?.source);
+          return jobResult(await followJob(job));
+        }
+
+        case 'remove_source': {
+          const source = await removeSourceById((args as any)?.source);
+
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(results, null, 2),
+                text: `Removed ${source.owner}/${source.repo}@${source.branch} (${source.id}) and its index`,
               },
             ],
           };
         }
 
-        case 'get_doc': {
-          const { repo, branch, path: filePath } = args as any;
-
-          if (!repo || !branch || !filePath) {
-            throw new Error('repo, branch, and path parameters are required');
-          }
-
-          // Parse repo (owner/repo)
-          const [owner, repoName] = repo.split('/');
-
-          if (!owner || !repoName) {
-            throw new Error('Invalid repo format. Expected "owner/repo"');
-          }
-
-          // Build full path to markdown file
-          const fullPath = path.join(
-            process.cwd(),
-            'data',
-            'repos',
-            owner,
-            repoName,
-            branch,
-            filePath
-          );
-
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8');
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: content,
-                },
-              ],
-            };
-          } catch (error: any) {
-            if (error.code === 'ENOENT') {
-              throw new Error(`Document not found: ${repo}@${branch}:${filePath}`);
-            }
-            throw error;
-          }
+        case 'get_indexing_status': {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(getIndexingJobs((args as any)?.source), null, 2),
+              },
+            ],
+          };
         }
 
         default:
@@ -232,16 +388,61 @@ export async function startMCPServer(options: ServeOptions) {
     }
   });
 
+  // Resources: table of contents of each source and its files, pinnable by clients
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+    listResources(request.params?.cursor)
+  );
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [DOCUMENT_TEMPLATE],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [await readResource(request.params.uri)],
+  }));
+
+  return server;
+}
+
+/**
+ * Start the MCP server on stdio, or on HTTP to share one server between several clients
+ */
+export async function startMCPServer(options: ServeOptions) {
+  if (options.http || options.rest) {
+    const { startHttpServer } = await import('./http.js');
+    const port = Number(options.port ?? 3000);
+    const host = options.host ?? '127.0.0.1';
+    const token = options.token || process.env.FEEDD_SERVER_TOKEN;
+
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+
+    const url = await startHttpServer(() => createMCPServer('http'), { port, host, token, rest: options.rest });
+
+    console.error(chalk.green('✓ MCP Server started'));
+    console.error(chalk.dim(`Listening on ${url} (streamable HTTP)${token ? ', bearer token required' : ''}...`));
+    console.error(chalk.dim(`Health check: ${new URL('/health', url)}`));
+    if (options.rest) {
+      console.error(chalk.dim(`REST API: ${new URL('/openapi.json', url)}`));
+    }
+    printCapabilities(await sourceToolsDisabled('http'));
+
+    console.error(chalk.bold('\n📋 Add to Claude Code:'));
+    console.error(chalk.dim('\nRun this command on every machine that should use this server:\n'));
+    console.error(chalk.cyan(`  claude mcp add --transport http feedd ${url}${token ? ' --header "Authorization: Bearer <token>"' : ''}`));
+    console.error(chalk.dim('\nThen restart Claude Code and run /mcp to verify\n'));
+    return;
+  }
+
   // Start server with stdio transport
+  const server = createMCPServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
   console.error(chalk.green('✓ MCP Server started'));
   console.error(chalk.dim('Listening on stdio...'));
-  console.error(chalk.dim('\nAvailable tools:'));
-  console.error(chalk.dim('  - list_sources()'));
-  console.error(chalk.dim('  - search_docs(query, source?, limit?)'));
-  console.error(chalk.dim('  - get_doc(repo, branch, path)'));
+  printCapabilities(await sourceToolsDisabled('stdio'));
 
   // Instructions for Claude Code
   console.error(chalk.bold('\n📋 Add to Claude Code:'));
@@ -251,3 +452,54 @@ export async function startMCPServer(options: ServeOptions) {
   console.error(chalk.cyan('  claude mcp add --transport stdio --scope user feedd -- feedd serve'));
   console.error(chalk.dim('\nThen restart Claude Code and run /mcp to verify\n'));
 }
+
+/**
+ * Why the tools that add, sync and remove sources are disabled on a transport, if they are
+ */
+async function sourceToolsDisabled(transport: 'stdio' | 'http'): Promise<string | undefined> {
+  const { readOnly, httpSourceTools } = await getServerConfig();
+
+  if (readOnly) {
+    return 'server.readOnly in feedd.config.json';
+  }
+  if (transport === 'http' && !httpSourceTools) {
+    return 'over HTTP unless server.httpSourceTools is set in feedd.config.json';
+  }
+  return undefined;
+}
+
+/**
+ * Result of add_source and sync_source: the job, and how to follow it while it runs
+ */
+function jobResult(job: IndexingJob) {
+  const content = [
+    {
+      type: 'text',
+      text: JSON.stringify(job, null, 2),
+    },
+  ];
+
+  if (job.status === 'queued' || job.status === 'running') {
+    content.push({
+      type: 'text',
+      text: `Indexing continues in the background. Call get_indexing_status with source "${job.id}" to follow it, ${job.repo}@${job.branch} can be searched once it is done.`,
+    });
+  }
+
+  return { content, isError: job.status === 'failed' };
+}
+
+function printCapabilities(sourceToolsDisabled: string | undefined): void {
+  console.error(chalk.dim('\nAvailable tools:'));
+  console.error(chalk.dim('  - list_sources()'));
+  console.error(chalk.dim('  - search_docs(query, source?, limit?, mode?, language?, path?, tags?, version?, exclude_deprecated?)'));
+  console.error(chalk.dim('  - get_doc(repo, branch, path, section?, start_line?, end_line?, max_tokens?, cursor?)'));
+  if (sourceToolsDisabled) {
+    console.error(chalk.dim(`  (add_source, sync_source, remove_source and get_indexing_status are disabled: ${sourceToolsDisabled})`));
+  } else {
+    console.error(chalk.dim('  - add_source(repo, branch?, include?, exclude?, typescript_api?, html?)'));
+    console.error(chalk.dim('  - sync_source(source), remove_source(source), get_indexing_status(source?)'));
+  }
+  console.error(chalk.dim('\nResources:'));
+  console.error(chalk.dim(`  - ${DOCUMENT_TEMPLATE.uriTemplate}`));
+}
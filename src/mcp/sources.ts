@@ -0,0 +1,276 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { addSource, getServerConfig, getSource, removeSource, updateSource, type Source } from '../config.js';
+import { getRepoPath, parseRepoSpec, type RepoSpec } from '../git/index.js';
+import { indexRepo, type IndexResult } from '../indexer/index.js';
+import { deleteSourceDocuments } from '../storage/lancedb.js';
+import { updateClaudeMd } from '../utils/claudemd.js';
+import { normalizeGlob } from '../utils/glob.js';
+
+/**
+ * Indexing of a source started by the add_source or sync_source tool
+ */
+export interface IndexingJob {
+  id: string;           // Source ID
+  repo: string;         // owner/repo
+  branch: string;
+  action: 'add' | 'sync';
+  status: 'queued' | 'running' | 'done' | 'failed';
+  step: string;         // Current step (e.g., "Generating embeddings (120/800 chunks)")
+  progress: number;     // Completed steps, fractional while embedding
+  total: number;
+  startedAt: string;
+  finishedAt?: string;
+  chunkCount?: number;
+  mode?: IndexResult['mode'];
+  error?: string;
+}
+
+/**
+ * Parameters of the add_source tool
+ */
+export interface AddSourceRequest {
+  repo: string;         // owner/repo[@branch], git URL[#branch] or local path
+  branch?: string;
+  typescript_api?: boolean;
+  html?: boolean;
+  include?: string[];
+  exclude?: string[];
+}
+
+// Last job of each source, kept after it finished so that its outcome can be queried
+const jobs = new Map<string, IndexingJob>();
+
+// Called with a job on each of its updates
+const listeners = new Map<string, Set<(job: IndexingJob) => void>>();
+
+// Jobs run one at a time: they share the config file, the embedder and the chunks table
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Add a source to the config and index it in the background
+ * @throws Error if the specification is invalid, the source already exists,
+ * or it is a local directory outside of server.localRoots
+ */
+export async function startAddSource(request: AddSourceRequest): Promise<IndexingJob> {
+  if (typeof request.repo !== 'string' || !request.repo.trim()) {
+    throw new Error('repo parameter is required');
+  }
+
+  const spec = parseRepoSpec(request.repo.trim());
+  if (request.branch && spec.kind !== 'local') {
+    spec.branch = request.branch;
+  }
+
+  await checkLocalRoots(spec);
+
+  const source = await addSource(spec, {
+    ...(request.typescript_api ? { typescriptApi: true } : {}),
+    ...(request.html ? { html: true } : {}),
+    ...(request.include?.length ? { include: request.include.map(normalizeGlob) } : {}),
+    ...(request.exclude?.length ? { exclude: request.exclude.map(normalizeGlob) } : {})
+  });
+
+  return enqueue(source, 'add');
+}
+
+/**
+ * Re-index a source in the background (incremental when possible, like feedd sync)
+ * @throws Error if the source does not exist or is already being indexed
+ */
+export async function startSyncSource(id: string): Promise<IndexingJob> {
+  const source = await requireSource(id);
+  return enqueue(source, 'sync');
+}
+
+/**
+ * Remove a source, its clone and its chunks (like feedd remove)
+ * @throws Error if the source does not exist or is being indexed
+ */
+export async function removeSourceById(id: string): Promise<Source> {
+  const source = await requireSource(id);
+
+  // Delete cloned repository (local directories are never touched)
+  if (source.kind !== 'local') {
+    await fs.rm(getRepoPath(source), { recursive: true, force: true });
+  }
+
+  await removeSource(source.id);
+  await deleteSourceDocuments(source.id);
+  await updateClaudeMd();
+
+  jobs.delete(source.id);
+  return source;
+}
+
+/**
+ * Jobs of this server, most recent first
+ * @param id Only the job of this source
+ */
+export function getIndexingJobs(id?: string): IndexingJob[] {
+  return Array.from(jobs.values())
+    .filter((job) => !id || job.id === id)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Follow a job until it finishes, or until the signal aborts (the job keeps running)
+ * @param onUpdate Called with the job on each update
+ */
+export function watchJob(
+  job: IndexingJob,
+  onUpdate: (job: IndexingJob) => void,
+  signal?: AbortSignal
+): Promise<IndexingJob> {
+  return new Promise((resolve) => {
+    const subscribers = listeners.get(job.id) ?? new Set();
+    listeners.set(job.id, subscribers);
+
+    const stop = () => {
+      subscribers.delete(listener);
+      if (subscribers.size === 0) {
+        listeners.delete(job.id);
+      }
+      signal?.removeEventListener('abort', stop);
+      resolve(job);
+    };
+
+    const listener = (update: IndexingJob) => {
+      onUpdate(update);
+      if (update.status === 'done' || update.status === 'failed') {
+        stop();
+      }
+    };
+
+    if (job.status === 'done' || job.status === 'failed' || signal?.aborted) {
+      resolve(job);
+      return;
+    }
+
+    subscribers.add(listener);
+    signal?.addEventListener('abort', stop);
+  });
+}
+
+/**
+ * Let clients index local directories (and file:// remotes) only under server.localRoots
+ * Indexed files can be read back with get_doc, so any other path would expose the disk.
+ * @throws Error if the directory is outside of every root
+ */
+async function checkLocalRoots(spec: RepoSpec): Promise<void> {
+  if (spec.kind !== 'local' && !spec.location.startsWith('file:')) {
+    return;
+  }
+
+  const target = spec.kind === 'local' ? spec.location : fileURLToPath(spec.location);
+  const realpath = (location: string) => fs.realpath(location).catch(() => path.resolve(location));
+  const real = await realpath(target);
+  const { localRoots = [] } = await getServerConfig();
+
+  for (const root of localRoots) {
+    const relative = path.relative(await realpath(root), real);
+    if (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+      return;
+    }
+  }
+
+  throw new Error(
+    `${target} is not under a directory of server.localRoots in feedd.config.json. ` +
+    'Local directories outside of these roots can only be added with feedd add'
+  );
+}
+
+async function requireSource(id: string): Promise<Source> {
+  if (typeof id !== 'string' || !id) {
+    throw new Error('source parameter is required');
+  }
+
+  const source = await getSource(id);
+
+  if (!source) {
+    throw new Error(`Source "${id}" not found. Use list_sources to see the indexed sources`);
+  }
+
+  if (isPending(jobs.get(id))) {
+    throw new Error(`Source "${id}" is already being indexed. Use get_indexing_status to follow it`);
+  }
+
+  return source;
+}
+
+function isPending(job: IndexingJob | undefined): boolean {
+  return job?.status === 'queued' || job?.status === 'running';
+}
+
+function enqueue(source: Source, action: IndexingJob['action']): IndexingJob {
+  const job: IndexingJob = {
+    id: source.id,
+    repo: `${source.owner}/${source.repo}`,
+    branch: source.branch,
+    action,
+    status: 'queued',
+    step: 'Waiting for other sources to be indexed',
+    progress: 0,
+    total: 1,
+    startedAt: new Date().toISOString()
+  };
+
+  jobs.set(source.id, job);
+  queue = queue.then(() => runJob(job));
+
+  return job;
+}
+
+/**
+ * Index a source and record the outcome in the config, like the add and sync commands
+ */
+async function runJob(job: IndexingJob): Promise<void> {
+  update(job, { status: 'running', step: 'Starting' });
+
+  try {
+    // Read the source again, a sync may follow the job that indexed it
+    const source = await getSource(job.id);
+    if (!source) {
+      throw new Error(`Source "${job.id}" was removed`);
+    }
+
+    await updateSource(source.id, { status: 'indexing' });
+
+    const { chunkCount, commit, mode } = await indexRepo(source, (step, progress, total) => {
+      update(job, { step, progress, total });
+    });
+
+    await updateSource(source.id, {
+      status: 'ready',
+      docCount: chunkCount,
+      commit,
+      error: undefined,
+      lastUpdated: new Date().toISOString()
+    });
+
+    await updateClaudeMd();
+
+    update(job, {
+      status: 'done',
+      step: 'Indexed',
+      progress: job.total,
+      chunkCount,
+      mode,
+      finishedAt: new Date().toISOString()
+    });
+  } catch (error: any) {
+    // Keep the failure visible in list_sources (the previous index generation stays searchable)
+    await updateSource(job.id, { status: 'error', error: error.message }).catch(() => {});
+
+    update(job, { status: 'failed', error: error.message, finishedAt: new Date().toISOString() });
+  }
+}
+
+function update(job: IndexingJob, changes: Partial<IndexingJob>): void {
+  Object.assign(job, changes);
+
+  for (const listener of listeners.get(job.id) ?? []) {
+    listener(job);
+  }
+}
@@ -1,9 +1,25 @@
 import * as lancedb from '@lancedb/lancedb';
 import * as arrow from 'apache-arrow';
 import path from 'path';
+import { globToRegExpSource } from '../utils/glob.js';
+
+/**
+ * All sources embedded with the same model share a chunks table ("chunks_{model}"),
+ * rows are scoped by source_id and generation. Vectors of different models never mix.
+ */
+export const CHUNKS_TABLE_PREFIX = 'chunks_';
+
+// Copy kept while a chunks table is rewritten with a newer schema
+const UPGRADE_BACKUP_PREFIX = 'upgrade__';
+
+// Schema metadata keys recording the embedding model a table was built with
+const MODEL_METADATA_KEY = 'feedd.embedding_model';
+const DIMENSIONS_METADATA_KEY = 'feedd.embedding_dimensions';
 
 export interface DocChunk {
   id: string;
+  source_id: string;
+  generation: string; // Index generation, only the source's active one is searched
   repo: string;
   branch: string;
   path: string;
@@ -15,6 +31,18 @@ export interface DocChunk {
     h1?: string;
     h2?: string;
     h3?: string;
+    section?: string;    // Heading path of the chunk
+    anchor?: string;     // Slug of the section heading (link with #anchor)
+    start_line?: number; // Line range of the chunk in the file (1-based)
+    end_line?: number;
+    languages?: string[]; // Languages of the code blocks in the chunk
+    description?: string; // Frontmatter fields of the document
+    tags?: string[];
+    sidebar_label?: string;
+    version?: string;
+    deprecated?: boolean;
+    symbol?: string;     // API symbol and its kind, for chunks extracted from source code
+    kind?: string;
     tokens?: number;
     file_path: string;
   };
@@ -24,45 +52,127 @@ export interface DocChunk {
 /**
  * Explicit Arrow schema for DocChunk
  * This prevents schema inference issues with nullable fields
+ * @param dimensions Vector width of the embedding model
+ * @param model Embedding model, recorded in the schema metadata
  */
-const DOC_CHUNK_SCHEMA = new arrow.Schema([
-  new arrow.Field('id', new arrow.Utf8(), false),           // required
-  new arrow.Field('repo', new arrow.Utf8(), false),         // required
-  new arrow.Field('branch', new arrow.Utf8(), false),       // required
-  new arrow.Field('path', new arrow.Utf8(), false),         // required
-  new arrow.Field('content', new arrow.Utf8(), false),      // required
-  new arrow.Field(
-    'vector',
-    new arrow.FixedSizeList(
-      1024,  // mxbai-embed-large dimension
-      new arrow.Field('item', new arrow.Float32(), true)
+function createDocChunkSchema(dimensions: number, model: string): arrow.Schema {
+  return new arrow.Schema([
+    new arrow.Field('id', new arrow.Utf8(), false),           // required
+    new arrow.Field('source_id', new arrow.Utf8(), false),    // required
+    new arrow.Field('generation', new arrow.Utf8(), false),   // required
+    new arrow.Field('repo', new arrow.Utf8(), false),         // required
+    new arrow.Field('branch', new arrow.Utf8(), false),       // required
+    new arrow.Field('path', new arrow.Utf8(), false),         // required
+    new arrow.Field('content', new arrow.Utf8(), false),      // required
+    new arrow.Field(
+      'vector',
+      new arrow.FixedSizeList(
+        dimensions,
+        new arrow.Field('item', new arrow.Float32(), true)
+      ),
+      false  // vector itself is required
     ),
-    false  // vector itself is required
-  ),
-  new arrow.Field(
-    'metadata',
-    new arrow.Struct([
-      new arrow.Field('source_id', new arrow.Utf8(), false), // required
-      new arrow.Field('title', new arrow.Utf8(), false),     // required
-      new arrow.Field('h1', new arrow.Utf8(), true),         // nullable
-      new arrow.Field('h2', new arrow.Utf8(), true),         // nullable
-      new arrow.Field('h3', new arrow.Utf8(), true),         // nullable
-      new arrow.Field('tokens', new arrow.Int32(), true),    // nullable
-      new arrow.Field('file_path', new arrow.Utf8(), false), // required
-    ]),
-    false  // metadata struct itself is required
-  ),
-  new arrow.Field('indexed_at', new arrow.Utf8(), false),   // required
-]);
+    new arrow.Field(
+      'metadata',
+      new arrow.Struct([
+        new arrow.Field('source_id', new arrow.Utf8(), false), // required
+        new arrow.Field('title', new arrow.Utf8(), false),     // required
+        new arrow.Field('h1', new arrow.Utf8(), true),         // nullable
+        new arrow.Field('h2', new arrow.Utf8(), true),         // nullable
+        new arrow.Field('h3', new arrow.Utf8(), true),         // nullable
+        new arrow.Field('section', new arrow.Utf8(), true),    // nullable
+        new arrow.Field('anchor', new arrow.Utf8(), true),     // nullable
+        new arrow.Field('start_line', new arrow.Int32(), true), // nullable
+        new arrow.Field('end_line', new arrow.Int32(), true),  // nullable
+        new arrow.Field(
+          'languages',
+          new arrow.List(new arrow.Field('item', new arrow.Utf8(), true)),
+          true
+        ),                                                       // nullable
+        new arrow.Field('description', new arrow.Utf8(), true), // nullable
+        new arrow.Field(
+          'tags',
+          new arrow.List(new arrow.Field('item', new arrow.Utf8(), true)),
+          true
+        ),                                                       // nullable
+        new arrow.Field('sidebar_label', new arrow.Utf8(), true), // nullable
+        new arrow.Field('version', new arrow.Utf8(), true),    // nullable
+        new arrow.Field('deprecated', new arrow.Bool(), false), // false unless marked deprecated
+        new arrow.Field('symbol', new arrow.Utf8(), true),     // nullable
+        new arrow.Field('kind', new arrow.Utf8(), true),       // nullable
+        new arrow.Field('tokens', new arrow.Int32(), true),    // nullable
+        new arrow.Field('file_path', new arrow.Utf8(), false), // required
+      ]),
+      false  // metadata struct itself is required
+    ),
+    new arrow.Field('indexed_at', new arrow.Utf8(), false),   // required
+  ], new Map([
+    [MODEL_METADATA_KEY, model],
+    [DIMENSIONS_METADATA_KEY, String(dimensions)]
+  ]));
+}
+
+export type SearchMode = 'vector' | 'fts' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'fts', 'hybrid'];
+
+export interface SearchFilter {
+  generations: string[]; // Active index generations of the sources to search
+  languages?: string[];  // Only chunks with code in one of these languages
+  paths?: string[];      // Only files matching one of these globs (e.g., "docs/api/**")
+  tags?: string[];       // Only documents with one of these frontmatter tags
+  version?: string;      // Only documents with this frontmatter version
+  excludeDeprecated?: boolean;
+}
+
+export interface SearchQuery {
+  text: string;
+  vector?: number[]; // Required for vector and hybrid modes
+  mode: SearchMode;
+  limit: number;
+  filter: SearchFilter;
+}
 
 export interface SearchResult {
   id: string;
+  source_id: string;
   repo: string;
   branch: string;
   path: string;
   content: string;
   metadata: any;
-  _distance: number;
+  _distance?: number; // Vector distance (lower is better)
+  _score?: number;    // BM25 score (fts) or fused rank score (hybrid), higher is better
+}
+
+// Reciprocal rank fusion constant (standard value from Cormack et al.)
+const RRF_K = 60;
+
+// Below this many rows a brute-force scan is fast enough (and IVF-PQ needs rows to train)
+export const VECTOR_INDEX_THRESHOLD = 10_000;
+
+export interface IndexStatus {
+  table: string;
+  name: string;
+  indexType: string;
+  columns: string[];
+  indexedRows: number;
+  unindexedRows: number;
+}
+
+export interface OptimizeReport {
+  vectorIndexesCreated: string[]; // Tables that just got a vector index
+  fragmentsRemoved: number;
+  fragmentsAdded: number;
+  versionsRemoved: number;
+  bytesRemoved: number;
+}
+
+export interface ChunksTableInfo {
+  name: string;
+  model: string;       // Embedding model the table was built with
+  dimensions: number;  // Vector width
+  rows: number;
 }
 
 let db: lancedb.Connection | null = null;
@@ -79,83 +189,438 @@ export async function connect(): Promise<lancedb.Connection> {
 }
 
 /**
- * Add documents to a collection (create if doesn't exist)
- * @param repoId Unique identifier for the repo (e.g., "facebook-react-main")
- * @param documents Array of document chunks to add
+ * Name of the chunks table of an embedding model (e.g., "nomic-embed-text:v1.5" -> "chunks_nomic-embed-text_v1.5")
  */
-export async function addDocuments(
-  repoId: string,
-  documents: DocChunk[]
-): Promise<void> {
+export function chunksTableName(model: string): string {
+  return `${CHUNKS_TABLE_PREFIX}${model.replace(/[^a-z0-9._-]/gi, '_')}`;
+}
+
+/**
+ * Open the chunks table of an embedding model
+ * @returns The table, or null if nothing has been indexed with this model yet
+ */
+async function openChunksTable(model: string): Promise<lancedb.Table | null> {
   const connection = await connect();
 
   try {
-    // Try to open existing table
-    const table = await connection.openTable(repoId);
-    await table.add(documents as any);
+    return await connection.openTable(chunksTableName(model));
   } catch (error: any) {
-    // Table doesn't exist, create it with explicit schema
-    if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
-      await connection.createTable(repoId, documents as any, {
-        schema: DOC_CHUNK_SCHEMA
-      });
-    } else {
-      throw error;
+    if (isTableNotFound(error)) {
+      return null;
     }
+    throw error;
   }
 }
 
 /**
- * Search documents by vector similarity
- * @param repoId Repository identifier
- * @param queryVector Query embedding vector
- * @param limit Number of results to return
- * @returns Array of search results sorted by distance
+ * Open every chunks table, whatever its model
  */
-export async function search(
-  repoId: string,
-  queryVector: number[],
-  limit: number = 10
-): Promise<SearchResult[]> {
+async function openAllChunksTables(): Promise<lancedb.Table[]> {
   const connection = await connect();
+  const names = (await connection.tableNames()).filter((name) => name.startsWith(CHUNKS_TABLE_PREFIX));
+  return Promise.all(names.map((name) => connection.openTable(name)));
+}
+
+/**
+ * List the chunks tables with the embedding model recorded in their schema
+ */
+export async function listChunksTables(): Promise<ChunksTableInfo[]> {
+  const tables: ChunksTableInfo[] = [];
+
+  for (const table of await openAllChunksTables()) {
+    const schema = await table.schema();
+    tables.push({
+      name: table.name,
+      model: schema.metadata.get(MODEL_METADATA_KEY) ?? table.name.slice(CHUNKS_TABLE_PREFIX.length),
+      dimensions: getVectorDimensions(schema),
+      rows: await table.countRows()
+    });
+  }
+
+  return tables;
+}
+
+function getVectorDimensions(schema: arrow.Schema): number {
+  const vector = schema.fields.find((field) => field.name === 'vector');
+  return (vector?.type as arrow.FixedSizeList | undefined)?.listSize ?? 0;
+}
+
+/**
+ * Add documents to the chunks table of an embedding model (create it if it doesn't exist)
+ * @param model Embedding model that produced the document vectors
+ * @param documents Array of document chunks to add
+ */
+export async function addDocuments(model: string, documents: DocChunk[]): Promise<void> {
+  if (documents.length === 0) {
+    return;
+  }
+
+  const dimensions = documents[0].vector.length;
+  const table = await openChunksTable(model);
+
+  if (table) {
+    const tableSchema = await table.schema();
+    const tableDimensions = getVectorDimensions(tableSchema);
+    if (tableDimensions !== dimensions) {
+      throw new Error(
+        `Table ${table.name} stores ${tableDimensions}-dimensional vectors but ${model} produced ${dimensions}. ` +
+        'Run "feedd reembed" to rebuild the index.'
+      );
+    }
+
+    await table.add(conformToSchema(documents, tableSchema));
+    return;
+  }
+
+  // Table doesn't exist, create it with explicit schema
+  const connection = await connect();
+  const schema = createDocChunkSchema(dimensions, model);
+  await connection.createTable(chunksTableName(model), conformToSchema(documents, schema), { schema });
+}
+
+/**
+ * Give rows every field of the schema (null when missing, false for required booleans)
+ * LanceDB drops schema fields that are absent from the first row when creating a table,
+ * and cannot build list or boolean columns from undefined values.
+ */
+function conformToSchema(rows: object[], schema: arrow.Schema): any[] {
+  const fill = (value: any, fields: arrow.Field[]): any => {
+    const filled = { ...value };
+    for (const field of fields) {
+      const value = filled[field.name];
+      if (value == null && !field.nullable && arrow.DataType.isBool(field.type)) {
+        filled[field.name] = false;
+      } else if (value === undefined) {
+        filled[field.name] = null;
+      } else if (arrow.DataType.isStruct(field.type) && value !== null) {
+        filled[field.name] = fill(value, field.type.children);
+      }
+    }
+    return filled;
+  };
+
+  return rows.map((row) => fill(row, schema.fields));
+}
+
+/**
+ * Build the full-text (BM25) index on chunk content if it doesn't exist yet
+ * Content starts with the heading breadcrumb, so headings are searchable too.
+ * Rows added later are still searched (unindexed) until the index is optimized.
+ */
+async function ensureFullTextIndex(table: lancedb.Table): Promise<void> {
+  const indices = await table.listIndices();
+  if (indices.some((index) => index.columns.includes('content') && index.indexType === 'FTS')) {
+    return;
+  }
+
+  await table.createIndex('content', {
+    config: lancedb.Index.fts()
+  });
+}
+
+/**
+ * Build the ANN (IVF-PQ) vector index once the table is large enough
+ * Rows added after the index is built are searched by brute force until optimizeTables()
+ * @returns True if the index was created by this call
+ */
+async function ensureVectorIndex(table: lancedb.Table): Promise<boolean> {
+  const indices = await table.listIndices();
+  if (indices.some((index) => index.columns.includes('vector'))) {
+    return false;
+  }
+
+  if (await table.countRows() < VECTOR_INDEX_THRESHOLD) {
+    return false;
+  }
+
+  await table.createIndex('vector', {
+    config: lancedb.Index.ivfPq()
+  });
+
+  return true;
+}
+
+/**
+ * Create every index the chunks table of a model needs (full-text, and vector when large enough)
+ */
+export async function ensureIndexes(model: string): Promise<void> {
+  const table = await openChunksTable(model);
+
+  if (table) {
+    await ensureFullTextIndex(table);
+    await ensureVectorIndex(table);
+  }
+}
+
+/**
+ * List the indices of every chunks table with their coverage
+ */
+export async function getIndexStatus(): Promise<IndexStatus[]> {
+  const status: IndexStatus[] = [];
+
+  for (const table of await openAllChunksTables()) {
+    for (const index of await table.listIndices()) {
+      const stats = await table.indexStats(index.name);
+      status.push({
+        table: table.name,
+        name: index.name,
+        indexType: index.indexType,
+        columns: index.columns,
+        indexedRows: stats?.numIndexedRows ?? 0,
+        unindexedRows: stats?.numUnindexedRows ?? 0
+      });
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Compact fragments, fold new rows into existing indices and delete old table versions
+ * Applies to the chunks tables of every model.
+ * @param olderThan Versions older than this date are removed (the current one is always kept)
+ */
+export async function optimizeTables(olderThan: Date): Promise<OptimizeReport> {
+  const report: OptimizeReport = {
+    vectorIndexesCreated: [],
+    fragmentsRemoved: 0,
+    fragmentsAdded: 0,
+    versionsRemoved: 0,
+    bytesRemoved: 0
+  };
+
+  for (const table of await openAllChunksTables()) {
+    await ensureFullTextIndex(table);
+    if (await ensureVectorIndex(table)) {
+      report.vectorIndexesCreated.push(table.name);
+    }
+
+    const stats = await table.optimize({ cleanupOlderThan: olderThan });
+    report.fragmentsRemoved += stats.compaction.fragmentsRemoved;
+    report.fragmentsAdded += stats.compaction.fragmentsAdded;
+    report.versionsRemoved += stats.prune.oldVersionsRemoved;
+    report.bytesRemoved += stats.prune.bytesRemoved;
+  }
+
+  return report;
+}
+
+/**
+ * Search documents by vector similarity, full-text (BM25), or both fused
+ * Results are pre-filtered on the requested sources, so limit is a global top-k.
+ * @param model Embedding model of the query vector (selects the chunks table)
+ * @param query Query text, vector, mode, limit and filter
+ * @returns Array of search results, best first
+ */
+export async function search(model: string, query: SearchQuery): Promise<SearchResult[]> {
+  const table = await openChunksTable(model);
+
+  if (!table || query.filter.generations.length === 0) {
+    return [];
+  }
 
   try {
-    const table = await connection.openTable(repoId);
+    switch (query.mode) {
+      case 'vector':
+        return await vectorSearch(table, query);
 
-    const results = await table
-      .search(queryVector)
-      .limit(limit)
-      .toArray();
+      case 'fts':
+        return await fullTextSearch(table, query);
 
-    return results.map((r: any) => ({
-      id: r.id,
-      repo: r.repo,
-      branch: r.branch,
-      path: r.path,
-      content: r.content,
-      metadata: r.metadata,
-      _distance: r._distance
-    }));
+      case 'hybrid': {
+        // Fetch deeper candidate lists so that fusion has something to work with
+        const candidates = { ...query, limit: query.limit * 2 };
+        const vectorResults = await vectorSearch(table, candidates);
+        let ftsResults: SearchResult[];
+
+        try {
+          ftsResults = await fullTextSearch(table, candidates);
+        } catch (error: any) {
+          // No full-text index yet: vector only
+          if (isMissingFtsIndex(error)) {
+            return vectorResults.slice(0, query.limit);
+          }
+          throw error;
+        }
+
+        return fuseRankings([vectorResults, ftsResults]).slice(0, query.limit);
+      }
+    }
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
-      return [];
+    if (isMissingFtsIndex(error)) {
+      throw new Error('No full-text index yet. Run "feedd sync" on a source to build it.');
     }
     throw error;
   }
 }
 
+async function vectorSearch(table: lancedb.Table, query: SearchQuery): Promise<SearchResult[]> {
+  if (!query.vector) {
+    throw new Error(`A query vector is required for ${query.mode} search`);
+  }
+
+  const results = await table
+    .search(query.vector)
+    .where(buildFilter(query.filter))
+    .limit(query.limit)
+    .toArray();
+
+  return results.map((r: any) => ({ ...toSearchResult(r), _distance: r._distance }));
+}
+
+async function fullTextSearch(table: lancedb.Table, query: SearchQuery): Promise<SearchResult[]> {
+  const results = await table
+    .query()
+    .fullTextSearch(query.text)
+    .where(buildFilter(query.filter))
+    .limit(query.limit)
+    .toArray();
+
+  return results.map((r: any) => ({ ...toSearchResult(r), _score: r._score }));
+}
+
+/**
+ * Translate a search filter into a LanceDB SQL predicate
+ */
+function buildFilter(filter: SearchFilter): string {
+  const predicates = [`generation IN (${sqlList(filter.generations)})`];
+
+  if (filter.languages && filter.languages.length > 0) {
+    predicates.push(`array_has_any(metadata.languages, [${sqlList(filter.languages)}])`);
+  }
+
+  if (filter.paths && filter.paths.length > 0) {
+    const globs = filter.paths.map((glob) => `regexp_like(path, ${sqlString(globToRegExpSource(glob))})`);
+    predicates.push(`(${globs.join(' OR ')})`);
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    predicates.push(`array_has_any(metadata.tags, [${sqlList(filter.tags.map((tag) => tag.toLowerCase()))}])`);
+  }
+
+  if (filter.version) {
+    predicates.push(`metadata.version = ${sqlString(filter.version)}`);
+  }
+
+  if (filter.excludeDeprecated) {
+    predicates.push('metadata.deprecated IS NOT TRUE');
+  }
+
+  return predicates.join(' AND ');
+}
+
+/**
+ * Reciprocal rank fusion: score = sum over rankings of 1 / (k + rank)
+ */
+export function fuseRankings(rankings: SearchResult[][]): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, rank) => {
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = fused.get(result.id);
+
+      if (existing) {
+        existing._score = (existing._score ?? 0) + score;
+        existing._distance ??= result._distance;
+      } else {
+        fused.set(result.id, { ...result, _score: score });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => (b._score ?? 0) - (a._score ?? 0));
+}
+
+function toSearchResult(r: any): SearchResult {
+  return {
+    id: r.id,
+    source_id: r.source_id,
+    repo: r.repo,
+    branch: r.branch,
+    path: r.path,
+    content: r.content,
+    metadata: r.metadata
+  };
+}
+
+function isMissingFtsIndex(error: any): boolean {
+  return Boolean(error.message?.includes('INVERTED index'));
+}
+
+function isTableNotFound(error: any): boolean {
+  return Boolean(error.message?.includes('not found') || error.message?.includes('does not exist'));
+}
+
+/**
+ * Delete the chunks of the given files from an index generation
+ * Generations are unique across models, so deletions apply to every chunks table.
+ * @param generation Index generation to update
+ * @param filePaths Relative paths of the files to remove
+ * @param keepIndexedAt Keep chunks written at this indexing time (replacement chunks added beforehand)
+ */
+export async function deleteDocuments(
+  generation: string,
+  filePaths: string[],
+  keepIndexedAt?: string
+): Promise<void> {
+  if (filePaths.length === 0) {
+    return;
+  }
+
+  const keepFilter = keepIndexedAt ? ` AND indexed_at != ${sqlString(keepIndexedAt)}` : '';
+  await deleteWhere(
+    `generation = ${sqlString(generation)} AND path IN (${sqlList(filePaths)})${keepFilter}`
+  );
+}
+
+/**
+ * Delete every chunk of an index generation (e.g., an aborted staging generation)
+ */
+export async function deleteGeneration(generation: string): Promise<void> {
+  await deleteWhere(`generation = ${sqlString(generation)}`);
+}
+
+/**
+ * Delete the chunks of a source
+ * @param sourceId Source identifier
+ * @param keepGeneration Generation to preserve (the active one after a swap)
+ */
+export async function deleteSourceDocuments(sourceId: string, keepGeneration?: string): Promise<void> {
+  const keepFilter = keepGeneration ? ` AND generation != ${sqlString(keepGeneration)}` : '';
+  await deleteWhere(`source_id = ${sqlString(sourceId)}${keepFilter}`);
+}
+
+async function deleteWhere(predicate: string): Promise<void> {
+  // Nothing to delete if no table exists
+  for (const table of await openAllChunksTables()) {
+    await table.delete(predicate);
+  }
+}
+
+/**
+ * Quote a value as a SQL string literal for LanceDB filters
+ */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function sqlList(values: string[]): string {
+  return values.map(sqlString).join(', ');
+}
+
 /**
  * Delete a table/collection
- * @param repoId Repository identifier
+ * @param tableName Table name
  */
-export async function deleteTable(repoId: string): Promise<void> {
+export async function deleteTable(tableName: string): Promise<void> {
   const connection = await connect();
 
   try {
-    await connection.dropTable(repoId);
+    await connection.dropTable(tableName);
   } catch (error: any) {
     // Ignore if table doesn't exist
-    if (!error.message?.includes('not found') && !error.message?.includes('does not exist')) {
+    if (!isTableNotFound(error)) {
       throw error;
     }
   }
@@ -171,19 +636,279 @@ export async function listTables(): Promise<string[]> {
 }
 
 /**
- * Get statistics for a specific table
+ * Read every row of a table (used to migrate legacy per-source tables)
  */
-export async function getTableStats(repoId: string): Promise<{ count: number }> {
+export async function readTable(tableName: string): Promise<any[]> {
   const connection = await connect();
+  const table = await connection.openTable(tableName);
+  return await table.query().toArray();
+}
 
-  try {
-    const table = await connection.openTable(repoId);
-    const count = await table.countRows();
-    return { count };
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
-      return { count: 0 };
+/**
+ * Read the chunks of an index generation (e.g., to re-embed them with another model)
+ */
+export async function readDocuments(generation: string): Promise<DocChunk[]> {
+  const documents: DocChunk[] = [];
+
+  for (const table of await openAllChunksTables()) {
+    const rows = await table.query().where(`generation = ${sqlString(generation)}`).toArray();
+    documents.push(...rows.map(toDocChunk));
+  }
+
+  return documents;
+}
+
+/**
+ * Indexed file of a generation, with the sections of its chunks in line order
+ */
+export interface IndexedFile {
+  path: string;
+  title: string;
+  description?: string;
+  sections: Array<{ section: string; anchor?: string; start_line?: number }>;
+}
+
+/**
+ * List the files of an index generation (without reading chunk contents or vectors)
+ * @returns Files sorted by path
+ */
+export async function listIndexedFiles(generation: string): Promise<IndexedFile[]> {
+  const files = new Map<string, IndexedFile>();
+
+  for (const table of await openAllChunksTables()) {
+    const rows = await table.query()
+      .where(`generation = ${sqlString(generation)}`)
+      .select(['path', 'metadata'])
+      .toArray();
+
+    for (const row of rows) {
+      const metadata = row.metadata?.toJSON ? row.metadata.toJSON() : { ...row.metadata };
+      let file = files.get(row.path);
+      if (!file) {
+        file = { path: row.path, title: metadata.title, sections: [] };
+        files.set(row.path, file);
+      }
+
+      // Chunks of API symbols may carry their own description
+      if (!metadata.symbol && metadata.description) {
+        file.description ??= metadata.description;
+      }
+
+      // Long sections are split into several chunks
+      if (metadata.section && !file.sections.some((section) => section.section === metadata.section)) {
+        file.sections.push({ section: metadata.section, anchor: metadata.anchor ?? undefined, start_line: metadata.start_line ?? undefined });
+      }
+    }
+  }
+
+  for (const file of files.values()) {
+    file.sections.sort((a, b) => (a.start_line ?? 0) - (b.start_line ?? 0));
+  }
+
+  return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Line range of an indexed chunk, with its section
+ */
+export interface IndexedChunk {
+  section?: string;
+  anchor?: string;
+  start_line?: number;
+  end_line?: number;
+}
+
+/**
+ * List the chunks of a file in an index generation (without contents or vectors)
+ * @returns Chunks sorted by line, none if the file is not part of the generation
+ */
+export async function listFileChunks(generation: string, filePath: string): Promise<IndexedChunk[]> {
+  const chunks: IndexedChunk[] = [];
+
+  for (const table of await openAllChunksTables()) {
+    const rows = await table.query()
+      .where(`generation = ${sqlString(generation)} AND path = ${sqlString(filePath)}`)
+      .select(['metadata'])
+      .toArray();
+
+    for (const row of rows) {
+      const metadata = row.metadata?.toJSON ? row.metadata.toJSON() : { ...row.metadata };
+      chunks.push({
+        section: metadata.section ?? undefined,
+        anchor: metadata.anchor ?? undefined,
+        start_line: metadata.start_line ?? undefined,
+        end_line: metadata.end_line ?? undefined
+      });
     }
-    throw error;
   }
+
+  return chunks.sort((a, b) => (a.start_line ?? 0) - (b.start_line ?? 0));
+}
+
+/**
+ * Convert a row read from LanceDB (Arrow values) into a DocChunk
+ */
+export function toDocChunk(row: any): DocChunk {
+  const metadata = row.metadata?.toJSON ? row.metadata.toJSON() : { ...row.metadata };
+
+  // List values come back as Arrow vectors
+  for (const field of ['languages', 'tags']) {
+    if (metadata[field]) {
+      metadata[field] = Array.from(metadata[field]);
+    }
+  }
+
+  return {
+    id: row.id,
+    source_id: row.source_id,
+    generation: row.generation,
+    repo: row.repo,
+    branch: row.branch,
+    path: row.path,
+    content: row.content,
+    vector: Array.from(row.vector as ArrayLike<number>),
+    metadata,
+    indexed_at: row.indexed_at
+  };
+}
+
+/**
+ * Read the text content of every stored chunk, grouped by index generation
+ */
+export async function getContentsByGeneration(): Promise<Map<string, string[]>> {
+  const contents = new Map<string, string[]>();
+
+  for (const table of await openAllChunksTables()) {
+    const rows = await table.query().select(['generation', 'content']).toArray();
+    for (const row of rows) {
+      const generation = contents.get(row.generation) ?? [];
+      generation.push(row.content);
+      contents.set(row.generation, generation);
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Count the chunks of an index generation
+ */
+export async function countDocuments(generation: string): Promise<number> {
+  let count = 0;
+
+  for (const table of await openAllChunksTables()) {
+    count += await table.countRows(`generation = ${sqlString(generation)}`);
+  }
+
+  return count;
+}
+
+/**
+ * Get statistics for the chunks tables
+ */
+export async function getTableStats(): Promise<{ count: number }> {
+  let count = 0;
+
+  for (const table of await openAllChunksTables()) {
+    count += await table.countRows();
+  }
+
+  return { count };
+}
+
+/**
+ * Drop the chunks tables left without rows (e.g., once every source moved to another model)
+ * @returns Names of the dropped tables
+ */
+export async function dropEmptyChunksTables(): Promise<string[]> {
+  const dropped: string[] = [];
+
+  for (const table of await openAllChunksTables()) {
+    if (await table.countRows() === 0) {
+      await deleteTable(table.name);
+      dropped.push(table.name);
+    }
+  }
+
+  return dropped;
+}
+
+/**
+ * List the chunks tables to rewrite: schema lacking fields of the current DocChunk schema
+ * (or with nullable fields that are now required), or an upgrade that was interrupted
+ * (its backup copy still exists)
+ */
+export async function listOutdatedChunksTables(): Promise<string[]> {
+  const connection = await connect();
+  const outdated = new Set<string>();
+
+  for (const name of await connection.tableNames()) {
+    if (name.startsWith(UPGRADE_BACKUP_PREFIX)) {
+      outdated.add(name.slice(UPGRADE_BACKUP_PREFIX.length));
+    }
+  }
+
+  const current = createDocChunkSchema(1, '');
+  const required = fieldNames(current, (field) => !field.nullable);
+
+  for (const table of await openAllChunksTables()) {
+    const schema = await table.schema();
+    const existing = new Set(fieldNames(schema));
+    const nullable = new Set(fieldNames(schema, (field) => field.nullable));
+
+    if (
+      fieldNames(current).some((field) => !existing.has(field)) ||
+      required.some((field) => nullable.has(field))
+    ) {
+      outdated.add(table.name);
+    }
+  }
+
+  return Array.from(outdated);
+}
+
+/**
+ * Rewrite a chunks table with the current schema, new fields stay empty until re-indexing
+ * The rows are copied to a backup table first, an interrupted upgrade resumes from it.
+ */
+export async function upgradeChunksTable(name: string): Promise<void> {
+  const connection = await connect();
+  const backupName = `${UPGRADE_BACKUP_PREFIX}${name}`;
+
+  if (!(await connection.tableNames()).includes(backupName)) {
+    const table = await connection.openTable(name);
+    const copy = await connection.createEmptyTable(backupName, await table.schema());
+    if (await table.countRows() > 0) {
+      await copy.add(await table.query().toArrow());
+    }
+  }
+
+  const backup = await connection.openTable(backupName);
+  const schema = await backup.schema();
+  const model = schema.metadata.get(MODEL_METADATA_KEY) ?? name.slice(CHUNKS_TABLE_PREFIX.length);
+  const documents = (await backup.query().toArray()).map(toDocChunk);
+  const upgradedSchema = createDocChunkSchema(getVectorDimensions(schema), model);
+
+  await deleteTable(name);
+
+  const table = documents.length > 0
+    ? await connection.createTable(name, conformToSchema(documents, upgradedSchema), { schema: upgradedSchema })
+    : await connection.createEmptyTable(name, upgradedSchema);
+
+  await ensureFullTextIndex(table);
+  await ensureVectorIndex(table);
+  await deleteTable(backupName);
+}
+
+/**
+ * Names of the fields of a chunks schema, struct children as "metadata.title"
+ * @param filter Only the fields it accepts
+ */
+function fieldNames(schema: arrow.Schema, filter: (field: arrow.Field) => boolean = () => true): string[] {
+  return schema.fields.flatMap((field) => [
+    ...(filter(field) ? [field.name] : []),
+    ...(field.type.children ?? [])
+      .filter(filter)
+      .map((child: arrow.Field) => `${field.name}.${child.name}`)
+  ]);
 }
@@ -0,0 +1,105 @@
+import chalk from 'chalk';
+import { loadConfig, saveConfig, type Source } from '../config.js';
+import {
+  CHUNKS_TABLE_PREFIX,
+  addDocuments,
+  deleteTable,
+  ensureIndexes,
+  listOutdatedChunksTables,
+  listTables,
+  readTable,
+  toDocChunk,
+  upgradeChunksTable
+} from './lancedb.js';
+
+// Unified table used before chunks were split per embedding model
+const LEGACY_CHUNKS_TABLE = 'chunks';
+
+/**
+ * Move chunks from legacy tables into the chunks table of the configured embedding model
+ * Legacy tables are the unified "chunks" table (rows keep their generation) and per-source
+ * tables (each migrated source gets a fresh generation). Old tables are dropped once the rows
+ * are safely copied and the config points to them.
+ * Progress goes to stderr since this also runs before the stdio MCP server starts.
+ */
+export async function migrateLegacyTables(): Promise<void> {
+  await upgradeChunksTables();
+
+  const tables = (await listTables()).filter((t) => !t.startsWith(CHUNKS_TABLE_PREFIX));
+
+  if (tables.length === 0) {
+    return;
+  }
+
+  const config = await loadConfig();
+  // Legacy tables were all built with the configured model
+  const model = config.embeddings.model;
+  let migrated = 0;
+
+  if (tables.includes(LEGACY_CHUNKS_TABLE)) {
+    console.error(chalk.dim(`Migrating the chunks table to the ${model} chunks table...`));
+
+    const rows = await readTable(LEGACY_CHUNKS_TABLE);
+    await addDocuments(model, rows.map(toDocChunk));
+
+    for (const source of config.sources) {
+      if (source.generation && !source.embeddingModel) {
+        source.embeddingModel = model;
+        migrated++;
+      }
+    }
+
+    await saveConfig(config);
+    await deleteTable(LEGACY_CHUNKS_TABLE);
+  }
+
+  for (const source of config.sources) {
+    // Sources indexed with table generations recorded their active table
+    const legacy = source as Source & { table?: string };
+    const activeTable = legacy.table || source.id;
+    const owned = tables.filter((t) => t === source.id || t.startsWith(`${source.id}__`));
+
+    if (owned.length === 0) {
+      continue;
+    }
+
+    if (owned.includes(activeTable) && !source.generation) {
+      console.error(chalk.dim(`Migrating ${source.owner}/${source.repo}@${source.branch} to the ${model} chunks table...`));
+
+      const generation = `${source.id}@${Date.now().toString(36)}`;
+      const rows = await readTable(activeTable);
+      await addDocuments(model, rows.map((row) => {
+        const doc = toDocChunk(row);
+        return { ...doc, source_id: source.id, generation, metadata: { ...doc.metadata, source_id: source.id } };
+      }));
+
+      source.generation = generation;
+      source.embeddingModel = model;
+      migrated++;
+    }
+
+    delete legacy.table;
+    await saveConfig(config);
+
+    for (const tableName of owned) {
+      await deleteTable(tableName);
+    }
+  }
+
+  if (migrated > 0) {
+    await ensureIndexes(model);
+    console.error(chalk.green(`✓ Migrated ${migrated} source(s) to the ${model} chunks table`));
+  }
+}
+
+/**
+ * Rewrite chunks tables created by an older version with the current schema
+ * Stored chunks are kept as is, sources get the new metadata on their next sync.
+ */
+async function upgradeChunksTables(): Promise<void> {
+  for (const name of await listOutdatedChunksTables()) {
+    console.error(chalk.dim(`Upgrading the ${name} table to the current schema...`));
+    await upgradeChunksTable(name);
+    console.error(chalk.green(`✓ Upgraded ${name}, run "feedd sync" on its sources to fill in the new metadata`));
+  }
+}
@@ -83,7 +83,11 @@ function generateFeeddSection(sources: Source[]): string {
 
     content += `- **${source.owner}/${source.repo}@${source.branch}** (source ID: \`${source.id}\`)\n`;
     content += `  - ${chunks} chunks indexed\n`;
-    content += `  - Status: ${status} ${source.status}\n\n`;
+    content += `  - Status: ${status} ${source.status}\n`;
+    if (source.status === 'error' && source.error) {
+      content += `  - Last error: ${source.error}\n`;
+    }
+    content += '\n';
   });
 
   return content;
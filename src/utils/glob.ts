@@ -0,0 +1,59 @@
+/**
+ * Translate a path glob into a regular expression source (anchored)
+ * Supports "**" (any number of directories), "*" and "?" (within a path segment)
+ * and "{a,b}" alternatives. E.g., "docs/api/**" -> "^docs/api/.*$"
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',' && glob.lastIndexOf('{', i) > glob.lastIndexOf('}', i)) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return `^${source}$`;
+}
+
+/**
+ * Make a glob relative to the repository root ("./docs/**" -> "docs/**")
+ */
+export function normalizeGlob(glob: string): string {
+  return glob.trim().replace(/\\/g, '/').replace(/^\.?\//, '');
+}
+
+/**
+ * Build a predicate accepting the relative paths that match one of the include globs
+ * (every path when there are none) and none of the exclude globs
+ */
+export function createPathFilter(include: string[] = [], exclude: string[] = []): (filePath: string) => boolean {
+  const included = include.map((glob) => new RegExp(globToRegExpSource(glob)));
+  const excluded = exclude.map((glob) => new RegExp(globToRegExpSource(glob)));
+
+  return (filePath) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    return (included.length === 0 || included.some((pattern) => pattern.test(normalized))) &&
+      !excluded.some((pattern) => pattern.test(normalized));
+  };
+}
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// The cache lives in data/cache/embeddings of the working directory
+const cwd = process.cwd();
+let dir: string;
+let EmbeddingCache: typeof import('../../src/embeddings/cache.js').EmbeddingCache;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feedd-cache-'));
+  process.chdir(dir);
+  ({ EmbeddingCache } = await import('../../src/embeddings/cache.js'));
+});
+
+afterAll(async () => {
+  process.chdir(cwd);
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function embedder(width: number, calls: string[][]) {
+  return async (texts: string[]) => {
+    calls.push(texts);
+    return texts.map(() => new Array<number>(width).fill(0.5));
+  };
+}
+
+describe('EmbeddingCache', () => {
+  it('only embeds texts that are not cached', async () => {
+    const calls: string[][] = [];
+    const cache = new EmbeddingCache('ollama:test', 4);
+
+    await cache.embed(['a', 'b', 'a'], embedder(4, calls));
+    const vectors = await cache.embed(['a', 'c'], embedder(4, calls));
+
+    expect(calls).toEqual([['a', 'b'], ['c']]);
+    expect(vectors).toEqual([[0.5, 0.5, 0.5, 0.5], [0.5, 0.5, 0.5, 0.5]]);
+    expect(cache.stats).toEqual({ hits: 2, misses: 3 });
+  });
+
+  it('embeds cached vectors of another width again', async () => {
+    const calls: string[][] = [];
+    await new EmbeddingCache('ollama:resized', 4).embed(['a'], embedder(4, calls));
+
+    const cache = new EmbeddingCache('ollama:resized', 2);
+    const vectors = await cache.embed(['a'], embedder(2, calls));
+
+    expect(calls).toEqual([['a'], ['a']]);
+    expect(vectors).toEqual([[0.5, 0.5]]);
+    expect(await cache.embed(['a'], embedder(2, calls))).toEqual([[0.5, 0.5]]);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { extractOpenApi, isOpenApiCandidatePath } from '../../src/extractors/openapi.js';
+
+let repo: string;
+
+const YAML_SPEC = [
+  'openapi: 3.0.0',
+  'info:',
+  '  title: Petstore',
+  '  version: 1.0.0',
+  'paths:',
+  '  /pets:',
+  '    get:',
+  '      operationId: listPets',
+  '      summary: List pets',
+  '      tags: [pets]',
+  '      responses:',
+  "        '200':",
+  '          description: A list of pets',
+  '    post:',
+  '      summary: Create a pet',
+  '      deprecated: true',
+  '      responses:',
+  "        '201':",
+  '          description: Created',
+  'components:',
+  '  schemas:',
+  '    Pet:',
+  '      type: object',
+  '      required: [id]',
+  '      properties:',
+  '        id:',
+  '          type: integer',
+  '        tag:',
+  '          type: string'
+].join('\n');
+
+const JSON_SPEC = JSON.stringify({
+  swagger: '2.0',
+  info: { title: 'Store', version: '2' },
+  paths: { '/orders': { get: { summary: 'List orders', responses: { 200: { description: 'Orders' } } } } },
+  definitions: { Order: { type: 'object', properties: { id: { type: 'string' } } } }
+}, null, 2);
+
+beforeAll(async () => {
+  repo = await fs.mkdtemp(path.join(os.tmpdir(), 'feedd-openapi-'));
+  await fs.writeFile(path.join(repo, 'openapi.yaml'), YAML_SPEC);
+  await fs.writeFile(path.join(repo, 'swagger.json'), JSON_SPEC);
+});
+
+afterAll(async () => {
+  await fs.rm(repo, { recursive: true, force: true });
+});
+
+describe('isOpenApiCandidatePath', () => {
+  it('accepts YAML and JSON files other than package manager files', () => {
+    expect(isOpenApiCandidatePath('api/openapi.yaml')).toBe(true);
+    expect(isOpenApiCandidatePath('api/swagger.json')).toBe(true);
+    expect(isOpenApiCandidatePath('package.json')).toBe(false);
+    expect(isOpenApiCandidatePath('docs/api.md')).toBe(false);
+  });
+});
+
+describe('extractOpenApi', () => {
+  it('makes a section of every operation and schema', async () => {
+    const doc = await extractOpenApi(path.join(repo, 'openapi.yaml'), repo);
+
+    expect(doc.metadata).toMatchObject({ title: 'Petstore', version: '1.0.0' });
+    expect(doc.sections.map((section) => [section.heading, section.symbol, section.kind])).toEqual([
+      ['GET /pets', 'listPets', 'operation'],
+      ['POST /pets', 'POST /pets', 'operation'],
+      ['Pet', 'Pet', 'schema']
+    ]);
+    expect(doc.sections[0].content).toContain('- `200` - A list of pets');
+    expect(doc.sections[0].metadata).toMatchObject({ description: 'List pets', tags: ['pets'] });
+    expect(doc.sections[1].metadata?.deprecated).toBe(true);
+    expect(doc.sections[2].content).toContain('- `id` (integer, required)');
+  });
+
+  it('locates operations and schemas in YAML', async () => {
+    const [get, post, pet] = (await extractOpenApi(path.join(repo, 'openapi.yaml'), repo)).sections;
+
+    expect([get.startLine, get.endLine, get.anchor]).toEqual([7, 13, 'L7-L13']);
+    expect([post.startLine, post.endLine]).toEqual([14, 19]);
+    expect([pet.startLine, pet.endLine]).toEqual([22, 29]);
+  });
+
+  it('locates operations and definitions in pretty-printed JSON, closing braces included', async () => {
+    const doc = await extractOpenApi(path.join(repo, 'swagger.json'), repo);
+    const lines = JSON_SPEC.split('\n');
+    const [get, order] = doc.sections;
+
+    expect(lines[get.startLine - 1].trim()).toBe('"get": {');
+    expect(lines[get.endLine - 1].trim()).toBe('}');
+    expect(lines[order.startLine - 1].trim()).toBe('"Order": {');
+    expect(lines[order.endLine - 1].trim()).toBe('}');
+    expect(order.content).toContain('- `id` (string)');
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { extractTypeScriptApi } from '../../src/extractors/typescript.js';
+import { flattenSections } from '../../src/markdown/parser.js';
+
+let repo: string;
+
+beforeAll(async () => {
+  repo = await fs.mkdtemp(path.join(os.tmpdir(), 'feedd-ts-'));
+  await fs.mkdir(path.join(repo, 'src', 'client'), { recursive: true });
+
+  await fs.writeFile(path.join(repo, 'src', 'client', 'index.ts'), [
+    '/** Client of the API */',
+    'export class Client {',
+    '  /** @deprecated Use fetch */',
+    '  get(): void {}',
+    '}'
+  ].join('\n'));
+
+  await fs.writeFile(path.join(repo, 'src', 'options.ts'), [
+    '/**',
+    ' * Options of a request',
+    ' * @deprecated Use RequestInit',
+    ' */',
+    'interface Options {',
+    '  timeout: number;',
+    '}',
+    '',
+    'function helper(): void {}',
+    '',
+    'const version = 2;',
+    '',
+    'export { Options, version as apiVersion };'
+  ].join('\n'));
+
+  await fs.writeFile(path.join(repo, 'src', 'index.ts'), [
+    "export { Client } from './client/index.js';",
+    "export {",
+    "  Options as RequestOptions,",
+    "  missing",
+    "} from './options.js';",
+    "export { readFile } from 'fs/promises';"
+  ].join('\n'));
+});
+
+afterAll(async () => {
+  await fs.rm(repo, { recursive: true, force: true });
+});
+
+async function extract(relativePath: string) {
+  const doc = await extractTypeScriptApi(path.join(repo, relativePath), repo);
+  return flattenSections(doc.sections);
+}
+
+describe('extractTypeScriptApi', () => {
+  it('extracts declarations exported by export lists under their exported name', async () => {
+    const sections = await extract('src/options.ts');
+
+    expect(sections.map((section) => section.symbol)).toEqual(['Options', 'apiVersion']);
+    expect(sections[0]).toMatchObject({ kind: 'interface', startLine: 1, endLine: 7 });
+    expect(sections[1].content).toContain('const version = 2;');
+  });
+
+  it('maps the @deprecated tag to deprecated metadata', async () => {
+    const [options, apiVersion] = await extract('src/options.ts');
+    const [client, get] = await extract('src/client/index.ts');
+
+    expect(options.metadata?.deprecated).toBe(true);
+    expect(apiVersion.metadata?.deprecated).toBeUndefined();
+    expect(client.metadata?.deprecated).toBeUndefined();
+    expect(get).toMatchObject({ symbol: 'Client.get', metadata: { deprecated: true } });
+  });
+
+  it('resolves declarations re-exported from other modules of the repository', async () => {
+    const sections = await extract('src/index.ts');
+
+    expect(sections.map((section) => section.symbol)).toEqual(['Client', 'RequestOptions']);
+    expect(sections[0]).toMatchObject({ kind: 'class', startLine: 1, endLine: 1, anchor: 'L1-L1' });
+    expect(sections[0].content).toContain('Client of the API');
+    expect(sections[1]).toMatchObject({ kind: 'interface', startLine: 3, metadata: { deprecated: true } });
+    expect(sections[1].content).toContain('timeout: number;');
+  });
+});
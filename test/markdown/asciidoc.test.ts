@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { asciidocToMarkdown } from '../../src/markdown/asciidoc.js';
+
+function convert(lines: string[]): string[] {
+  return asciidocToMarkdown(lines.join('\n')).markdown.split('\n');
+}
+
+describe('asciidocToMarkdown', () => {
+  it('converts section titles and skips the document header', () => {
+    expect(convert(['= Guide', 'Jane Doe', 'v1.0', '', '== Install', '', '=== From source'])).toEqual([
+      '# Guide', '', '', '', '## Install', '', '### From source'
+    ]);
+  });
+
+  it('returns attribute entries as attributes and substitutes references', () => {
+    const { markdown, attributes } = asciidocToMarkdown(':description: About hooks\n:page-tags: hooks\n:product: Feedd\n\nUse {product}.');
+
+    expect(attributes).toEqual({ description: 'About hooks', tags: 'hooks', product: 'Feedd' });
+    expect(markdown.split('\n')).toEqual(['', '', '', '', 'Use Feedd.']);
+  });
+
+  it('turns delimited source blocks into fenced code blocks', () => {
+    expect(convert(['[source,java]', '----', 'int x = 1;', '----', 'After'])).toEqual([
+      '', '```java', 'int x = 1;', '```', 'After'
+    ]);
+  });
+
+  it('turns source paragraphs into fenced code blocks', () => {
+    expect(convert(['[source,sh]', 'make install', '', 'After'])).toEqual(['```sh', 'make install', '```', 'After']);
+  });
+
+  it('closes a code block ending the document', () => {
+    expect(asciidocToMarkdown('----\nmake').markdown).toBe('```\nmake\n```');
+  });
+
+  it('keeps a label for admonitions', () => {
+    expect(convert(['NOTE: Be careful.'])).toEqual(['**Note:** Be careful.']);
+    expect(convert(['[WARNING]', 'Data is lost.'])).toEqual(['**Warning:**', 'Data is lost.']);
+    expect(convert(['[TIP]', '====', 'Use a cache.', '===='])).toEqual(['', '**Tip:**', 'Use a cache.', '']);
+  });
+
+  it('drops comments and include directives', () => {
+    expect(convert(['// comment', 'include::partial.adoc[]', '////', 'hidden', '////', 'Text'])).toEqual([
+      '', '', '', '', '', 'Text'
+    ]);
+  });
+
+  it('converts inline markup', () => {
+    expect(convert(['See <<install,Installing>>, xref:api.adoc[the API], link:faq.html[FAQ] and https://example.com[the site]; press kbd:[Ctrl+C].'])).toEqual([
+      'See Installing, the API, [FAQ](faq.html) and [the site](https://example.com); press `Ctrl+C`.'
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown, isHtmlPath } from '../../src/markdown/html.js';
+
+describe('isHtmlPath', () => {
+  it('accepts pages and skips generated pages and asset directories', () => {
+    expect(isHtmlPath('guide/install.html')).toBe(true);
+    expect(isHtmlPath('api/Client.htm')).toBe(true);
+    expect(isHtmlPath('genindex.html')).toBe(false);
+    expect(isHtmlPath('search.html')).toBe(false);
+    expect(isHtmlPath('_static/page.html')).toBe(false);
+    expect(isHtmlPath('guide/install.md')).toBe(false);
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('converts the main content without navigation', () => {
+    const { markdown } = htmlToMarkdown([
+      '<html><body>',
+      '<nav><a href="/">Home</a></nav>',
+      '<div role="main">',
+      '<h1>Install<a class="headerlink" href="#install">¶</a></h1>',
+      '<p>Run <code>make</code> &amp; wait.</p>',
+      '</div>',
+      '<footer>Copyright</footer>',
+      '</body></html>'
+    ].join('\n'));
+
+    expect(markdown).toContain('# Install');
+    expect(markdown).toContain('Run `make` & wait.');
+    expect(markdown).not.toContain('Home');
+    expect(markdown).not.toContain('¶');
+    expect(markdown).not.toContain('Copyright');
+  });
+
+  it('places blocks at the line of their start tag', () => {
+    const { markdown } = htmlToMarkdown('<main>\n\n\n<h2>Usage</h2>\n<p>Text</p>\n</main>');
+    const lines = markdown.split('\n');
+
+    expect(lines.indexOf('## Usage')).toBe(3);
+    expect(lines.indexOf('Text')).toBeGreaterThan(3);
+  });
+
+  it('turns pre blocks into fenced code blocks with their language', () => {
+    const { markdown } = htmlToMarkdown('<article><div class="highlight-python"><pre><span>x</span> = 1\ny = 2</pre></div></article>');
+
+    expect(markdown).toContain('```python\nx = 1\ny = 2\n```');
+  });
+
+  it('turns tables into pipe tables', () => {
+    const { markdown } = htmlToMarkdown('<main><table><tr><th>Name</th><th>Type</th></tr><tr><td>id</td><td>string</td></tr></table></main>');
+
+    expect(markdown).toContain('| Name | Type |');
+    expect(markdown).toContain('| id | string |');
+  });
+
+  it('converts links and lists', () => {
+    const { markdown } = htmlToMarkdown('<main><ul><li>See <a href="api.html">the API</a></li><li>Two</li></ul></main>');
+
+    expect(markdown).toContain('- See [the API](api.html)');
+    expect(markdown).toContain('- Two');
+  });
+
+  it('returns the description, keywords and the title of pages without h1', () => {
+    const { metadata } = htmlToMarkdown([
+      '<html><head><title>Hooks - Feedd</title>',
+      '<meta name="description" content="About hooks">',
+      '<meta name="keywords" content="hooks, api">',
+      '</head><body><main><p>Text</p></main></body></html>'
+    ].join('\n'));
+
+    expect(metadata).toEqual({ description: 'About hooks', keywords: 'hooks, api', title: 'Hooks - Feedd' });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isMdxPath, stripMdx } from '../../src/markdown/mdx.js';
+
+function strip(lines: string[]): string[] {
+  return stripMdx(lines.join('\n')).split('\n');
+}
+
+describe('isMdxPath', () => {
+  it('checks the extension', () => {
+    expect(isMdxPath('docs/Intro.MDX')).toBe(true);
+    expect(isMdxPath('docs/intro.md')).toBe(false);
+  });
+});
+
+describe('stripMdx', () => {
+  it('blanks out import and export statements', () => {
+    expect(strip(['import Tabs from "@theme/Tabs";', 'import {', '  TabItem', '} from "@theme/TabItem";', '', 'export const meta = {};', '', '# Title'])).toEqual([
+      '', '', '', '', '', '', '', '# Title'
+    ]);
+  });
+
+  it('keeps prose starting with "import" inside a paragraph', () => {
+    expect(strip(['You can', 'import the module.'])).toEqual(['You can', 'import the module.']);
+  });
+
+  it('removes components and keeps their children', () => {
+    expect(strip(['<Card href="/x">', 'Read the guide.', '</Card>'])).toEqual(['', 'Read the guide.', '']);
+  });
+
+  it('keeps the label of tabs and callouts', () => {
+    expect(strip(['<Tabs>', '<TabItem value="npm" label="npm">', 'npm i', '</TabItem>', '</Tabs>'])).toEqual([
+      '', '**npm**', 'npm i', '', ''
+    ]);
+    expect(strip(['<Callout type="warning">Data is lost.</Callout>'])).toEqual(['**Warning:** Data is lost.']);
+    expect(strip(['<Note title="Heads up">Read this.</Note>'])).toEqual(['**Heads up:** Read this.']);
+  });
+
+  it('keeps the line count of tags spanning lines', () => {
+    expect(strip(['<Image', '  src={img}', '  alt="x"', '/>', 'Text'])).toEqual(['', '', '', '', 'Text']);
+  });
+
+  it('removes JSX comments', () => {
+    expect(strip(['Text {/* todo:', 'fix */} end'])).toEqual(['Text ', ' end']);
+  });
+
+  it('keeps code blocks and inline code verbatim', () => {
+    const code = ['```jsx', 'import X from "x";', '<Tabs>{/* c */}</Tabs>', '```', 'Use `<Tabs>` here.'];
+
+    expect(strip(code)).toEqual(code);
+  });
+
+  it('keeps HTML elements', () => {
+    expect(strip(['<details><summary>More</summary>Text</details>'])).toEqual(['<details><summary>More</summary>Text</details>']);
+  });
+});
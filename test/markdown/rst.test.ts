@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { rstToMarkdown } from '../../src/markdown/rst.js';
+
+function convert(lines: string[]): string[] {
+  return rstToMarkdown(lines.join('\n')).markdown.split('\n');
+}
+
+describe('rstToMarkdown', () => {
+  it('keeps the line count of the source', () => {
+    const source = [
+      ':tags: hooks',
+      '',
+      'Title',
+      '=====',
+      '',
+      '.. note:: Be careful',
+      '',
+      'Example::',
+      '',
+      '    print(1)',
+      '',
+      '.. code-block:: python',
+      '   :linenos:',
+      '',
+      '   x = 1',
+      '',
+      '.. toctree::',
+      '   :maxdepth: 2',
+      '',
+      '   install'
+    ].join('\n');
+
+    expect(rstToMarkdown(source).markdown.split('\n')).toHaveLength(source.split('\n').length);
+  });
+
+  it('levels headings in the order adornment styles appear', () => {
+    expect(convert(['=====', 'Guide', '=====', '', 'Install', '-------', '', 'Usage', '~~~~~'])).toEqual([
+      '', '# Guide', '', '', '## Install', '', '', '### Usage', ''
+    ]);
+  });
+
+  it('returns the leading field list as fields', () => {
+    const { markdown, fields } = rstToMarkdown(':Tags: hooks, api\n:version: 2.0\n\nText');
+
+    expect(fields).toEqual({ tags: 'hooks, api', version: '2.0' });
+    expect(markdown).toBe('\n\n\nText');
+  });
+
+  it('turns code-block directives into fenced code blocks', () => {
+    expect(convert(['.. code-block:: python', '', '   x = 1', '   y = 2', '', 'After'])).toEqual([
+      '', '```python', 'x = 1', 'y = 2', '```', 'After'
+    ]);
+  });
+
+  it('turns literal blocks after "::" into fenced code blocks', () => {
+    expect(convert(['Example::', '', '    $ pip install feedd', '', 'Done'])).toEqual([
+      'Example:', '```', '$ pip install feedd', '```', 'Done'
+    ]);
+  });
+
+  it('closes a code block ending the document', () => {
+    expect(rstToMarkdown('.. code:: sh\n\n   make').markdown).toBe('\n```sh\nmake\n```');
+  });
+
+  it('keeps a label for admonitions', () => {
+    expect(convert(['.. warning::', '', '   Data is lost.'])).toEqual(['**Warning:**', '', 'Data is lost.']);
+    expect(convert(['.. deprecated:: 2.0'])).toEqual(['**Deprecated since 2.0:**']);
+  });
+
+  it('drops navigation directives and comments', () => {
+    expect(convert(['.. toctree::', '   :maxdepth: 2', '', '   install', '', '.. a comment', 'Text'])).toEqual([
+      '', '', '', '', '', '', 'Text'
+    ]);
+  });
+
+  it('converts inline markup', () => {
+    expect(convert(['Call ``run()`` or :func:`~pkg.mod.start`, see :ref:`the guide <guide>` and `Docs <https://example.com>`_.'])).toEqual([
+      'Call `run()` or `start`, see the guide and [Docs](https://example.com).'
+    ]);
+  });
+
+  it('takes the description and keywords of the meta directive', () => {
+    const { fields } = rstToMarkdown('Title\n=====\n\n.. meta::\n   :description: About hooks\n   :keywords: hooks');
+
+    expect(fields).toEqual({ description: 'About hooks', keywords: 'hooks' });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fuseRankings, type SearchResult } from '../../src/storage/lancedb.js';
+
+function result(id: string, fields: Partial<SearchResult> = {}): SearchResult {
+  return { id, source_id: 's', repo: 'r', branch: 'main', path: `${id}.md`, content: id, metadata: {}, ...fields };
+}
+
+describe('fuseRankings', () => {
+  it('scores results by their reciprocal rank', () => {
+    const fused = fuseRankings([[result('a'), result('b')]]);
+
+    expect(fused.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(fused[0]._score).toBeCloseTo(1 / 61);
+    expect(fused[1]._score).toBeCloseTo(1 / 62);
+  });
+
+  it('sums the scores of results found by several rankings', () => {
+    const vector = [result('a'), result('b'), result('c')];
+    const fts = [result('c'), result('d'), result('b')];
+    const fused = fuseRankings([vector, fts]);
+
+    expect(fused.map((r) => r.id)).toEqual(['c', 'b', 'a', 'd']);
+    expect(fused[0]._score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused[1]._score).toBeCloseTo(1 / 62 + 1 / 63);
+  });
+
+  it('keeps the vector distance of results only found by full-text search later', () => {
+    const fused = fuseRankings([
+      [result('a', { _score: 12.5 })],
+      [result('a', { _distance: 0.25 })]
+    ]);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0]._distance).toBe(0.25);
+    expect(fused[0]._score).toBeCloseTo(2 / 61);
+  });
+
+  it('does not modify the input rankings', () => {
+    const ranking = [result('a', { _score: 3 })];
+    fuseRankings([ranking, ranking]);
+
+    expect(ranking[0]._score).toBe(3);
+  });
+});
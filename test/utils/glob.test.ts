@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createPathFilter, globToRegExpSource, normalizeGlob } from '../../src/utils/glob.js';
+
+function matches(glob: string, filePath: string): boolean {
+  return new RegExp(globToRegExpSource(glob)).test(filePath);
+}
+
+describe('globToRegExpSource', () => {
+  it('anchors the expression', () => {
+    expect(globToRegExpSource('docs/api/**')).toBe('^docs/api/.*$');
+    expect(matches('README.md', 'docs/README.md')).toBe(false);
+  });
+
+  it('matches "*" and "?" within a path segment', () => {
+    expect(matches('docs/*.md', 'docs/intro.md')).toBe(true);
+    expect(matches('docs/*.md', 'docs/guide/intro.md')).toBe(false);
+    expect(matches('docs/v?.md', 'docs/v2.md')).toBe(true);
+    expect(matches('docs/v?.md', 'docs/v/.md')).toBe(false);
+  });
+
+  it('matches "**/" with any number of directories, including none', () => {
+    expect(matches('**/*.md', 'README.md')).toBe(true);
+    expect(matches('**/*.md', 'docs/guide/intro.md')).toBe(true);
+    expect(matches('docs/**/api.md', 'docs/api.md')).toBe(true);
+    expect(matches('docs/**/api.md', 'docs/v1/reference/api.md')).toBe(true);
+    expect(matches('docs/**', 'docs/a/b.md')).toBe(true);
+  });
+
+  it('matches "{a,b}" alternatives', () => {
+    expect(matches('docs/*.{md,mdx}', 'docs/intro.mdx')).toBe(true);
+    expect(matches('docs/*.{md,mdx}', 'docs/intro.rst')).toBe(false);
+    expect(matches('{guide,api}/**', 'api/pets.md')).toBe(true);
+  });
+
+  it('keeps commas outside of alternatives literal', () => {
+    expect(matches('a,b.md', 'a,b.md')).toBe(true);
+    expect(matches('{x,y}/a,b.md', 'y/a,b.md')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(matches('docs/v1.0/(draft)+.md', 'docs/v1.0/(draft)+.md')).toBe(true);
+    expect(matches('docs/v1.0/*.md', 'docs/v100/a.md')).toBe(false);
+    expect(matches('[abc].md', 'a.md')).toBe(false);
+  });
+});
+
+describe('normalizeGlob', () => {
+  it('makes globs relative to the repository root', () => {
+    expect(normalizeGlob('./docs/**')).toBe('docs/**');
+    expect(normalizeGlob('/docs/**')).toBe('docs/**');
+    expect(normalizeGlob(' docs\\api\\*.md ')).toBe('docs/api/*.md');
+  });
+});
+
+describe('createPathFilter', () => {
+  it('accepts every path without globs', () => {
+    expect(createPathFilter()('any/file.md')).toBe(true);
+  });
+
+  it('accepts included paths that are not excluded', () => {
+    const filter = createPathFilter(['docs/**'], ['docs/internal/**']);
+
+    expect(filter('docs/intro.md')).toBe(true);
+    expect(filter('docs/internal/notes.md')).toBe(false);
+    expect(filter('README.md')).toBe(false);
+  });
+
+  it('normalizes Windows separators', () => {
+    expect(createPathFilter(['docs/*.md'])('docs\\intro.md')).toBe(true);
+  });
+});